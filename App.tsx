@@ -1,133 +1,471 @@
 
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { BotIcon, UserIcon, SendIcon, PaperclipIcon, MicIcon, SparklesIcon } from './components/icons';
-import { ActiveFeature, ChatMessage, ChatMessageRole, Media, Source } from './types';
-import { createChatSession, streamChat } from './services/geminiService';
-import type { Chat, GenerateContentResponse } from '@google/genai';
-import { ImageGeneratorPanel, VideoGeneratorPanel, ImageEditorPanel } from './components/FeaturePanels';
+import { BotIcon, UserIcon, MicIcon, SparklesIcon, CogIcon, XIcon, WrenchIcon, SlidersIcon, ChartIcon, FolderIcon } from './components/icons';
+import { ActiveFeature, ChatMessage, ChatMessageRole, Citation, Conversation, ConversationSettings, Media, ResponseFinish, Source, ToolCallRecord } from './types';
+import { createChatSession, streamChat, editImage, generateImage, getActiveProvider, getChatModels, getProviderSettings, getSpeechCapabilities, getVideoCapabilities, generateSpeech, setProviderSettings } from './services/geminiService';
+import { classifyError } from './services/aiErrors';
+import { DEFAULT_CONVERSATION_SETTINGS } from './services/chatPresets';
+import { addUsage, formatCost, getTodaysCost, getUsageBudget } from './services/usageTracker';
+import { createConversation, deleteConversation, deriveTitle, getConversation, listConversations, saveConversation, DEFAULT_CONVERSATION_TITLE } from './services/conversationStore';
+import { exportConversation, importConversationFromJson, EXPORT_FILE_TYPES, ExportFormat } from './services/conversationExport';
+import { blobToDataUrl, downloadBlob, imageUrlToMedia, mediaToDataUrl, parseDataUrl } from './utils/mediaHelpers';
+import { addToLibrary, getAssetFileName, MediaAsset } from './services/mediaLibrary';
+import { applyVideoJobToMessage, cancelVideoJob, createPendingVideoMessage, getDefaultVideoOptions, resumeVideoJobs, startVideoJob, subscribeToVideoJobs, VideoJob } from './services/videoJobs';
+import { parseSlashCommand, SlashCommand } from './services/slashCommands';
+import { listTemplates } from './services/promptTemplates';
+import type { ChatSession, ProviderSettings, ToolCallRequest } from './services/providers/types';
+import { getTool, isToolUseEnabled, runTool, setToolUseEnabled, ToolContext } from './services/tools/registry';
+import { ImageGeneratorPanel, VideoGeneratorPanel, ImageEditorPanel, VideoGenerationRequest } from './components/FeaturePanels';
 import LiveConversation from './components/LiveConversation';
+import { MediaLibraryPanel } from './components/MediaLibraryPanel';
+import ConversationSidebar from './components/ConversationSidebar';
+import ProviderSettingsDialog from './components/ProviderSettingsDialog';
+import ApiKeyScreen from './components/ApiKeyScreen';
+import ConversationSettingsDrawer from './components/ConversationSettingsDrawer';
+import UsageDashboard from './components/UsageDashboard';
+import PromptTemplatesDialog from './components/PromptTemplatesDialog';
+import ChatComposer from './components/ChatComposer';
+import Message from './components/Message';
+import { selectVersion, startNewVersion, syncActiveVersion } from './utils/messageVersions';
 
-// This is a mock implementation for a more complex markdown parser
-const SimpleMarkdown: React.FC<{ text: string, onSourceClick: (id: string) => void }> = ({ text, onSourceClick }) => {
-    const parts = text.split(/(\[S\d+\])/g);
-    return (
-        <p className="whitespace-pre-wrap">
-            {parts.map((part, index) => {
-                const match = part.match(/\[S(\d+)\]/);
-                if (match) {
-                    const sourceId = `S${match[1]}`;
-                    return (
-                        <button key={index} onClick={() => onSourceClick(sourceId)} className="inline-block bg-blue-800 text-blue-200 text-xs font-bold px-2 py-0.5 rounded-full mx-1 hover:bg-blue-700 transition-colors">
-                            {sourceId}
-                        </button>
-                    );
-                }
-                return <span key={index}>{part}</span>;
-            })}
-        </p>
-    );
-};
-
-const Message: React.FC<{ message: ChatMessage, onSourceClick: (id: string) => void }> = ({ message, onSourceClick }) => {
-    const isUser = message.role === ChatMessageRole.USER;
-    const Icon = isUser ? UserIcon : BotIcon;
+// Sent as a hidden user turn; the continuation is appended to the truncated reply.
+const CONTINUE_PROMPT = 'Continue exactly where your previous reply was cut off, without repeating anything.';
 
-    return (
-        <div className={`flex items-start gap-4 p-4 ${isUser ? '' : 'bg-gray-800/50'}`}>
-            <div className={`flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center ${isUser ? 'bg-indigo-500' : 'bg-teal-500'}`}>
-                <Icon className="w-5 h-5 text-white" />
-            </div>
-            <div className="flex-grow pt-1">
-                <div className="prose prose-invert max-w-none">
-                   <SimpleMarkdown text={message.text} onSourceClick={onSourceClick} />
-                   {message.isLoading && <span className="inline-block w-3 h-3 bg-white rounded-full ml-2 animate-pulse"></span>}
-                </div>
-                {message.media && message.media.length > 0 && (
-                     <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-4">
-                        {message.media.map((media, index) => (
-                            <div key={index} className="bg-gray-700 p-2 rounded-lg">
-                                {media.type === 'image' && <img src={media.url} alt={media.prompt || 'Generated image'} className="rounded-md w-full" />}
-                                {media.type === 'video' && <video src={media.url} controls className="rounded-md w-full" />}
-                                {media.type === 'audio' && <audio src={media.url} controls className="w-full" />}
-                                {media.prompt && <p className="text-xs text-gray-400 mt-2 italic">Prompt: "{media.prompt}"</p>}
-                            </div>
-                        ))}
-                    </div>
-                )}
-            </div>
-        </div>
-    );
-};
+// Code blocks and markdown syntax would be read out literally, so they are dropped before speaking a reply.
+const toSpeechText = (text: string) => text
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`#>|~]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
 
+// Produces the reply to an image command. The signal is aborted when the user stops it.
+type MediaCommandRunner = (signal: AbortSignal) => Promise<Pick<ChatMessage, 'text' | 'media'>>;
 
 export default function App() {
     const [activeFeature, setActiveFeature] = useState<ActiveFeature>('chat');
     const [messages, setMessages] = useState<ChatMessage[]>([]);
     const [prompt, setPrompt] = useState('');
+    const [attachments, setAttachments] = useState<Media[]>([]);
     const [isLoading, setIsLoading] = useState(false);
-    const [sources, setSources] = useState<Source[]>([]);
+    // Sources are shown for the message whose citation was last clicked, defaulting to the latest cited reply.
+    const [sourcesMessageId, setSourcesMessageId] = useState<string | null>(null);
     const [activeSource, setActiveSource] = useState<Source | null>(null);
-    const chatSession = useRef<Chat | null>(null);
+    const [conversations, setConversations] = useState<Conversation[]>([]);
+    const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+    const [isProviderDialogOpen, setIsProviderDialogOpen] = useState(false);
+    const [providerSettings, setProviderSettingsState] = useState(getProviderSettings);
+    const [toolUseEnabled, setToolUseEnabledState] = useState(isToolUseEnabled);
+    const [isSettingsDrawerOpen, setIsSettingsDrawerOpen] = useState(false);
+    const [isUsageDashboardOpen, setIsUsageDashboardOpen] = useState(false);
+    // Library assets handed to the image editor or video generator.
+    const [editorImageUrl, setEditorImageUrl] = useState<string | undefined>();
+    const [videoInputImage, setVideoInputImage] = useState<File | undefined>();
+    const [videoToExtend, setVideoToExtend] = useState<Media | undefined>();
+    const [promptTemplates, setPromptTemplates] = useState(listTemplates);
+    const [isTemplatesDialogOpen, setIsTemplatesDialogOpen] = useState(false);
+    const [readingAloudIds, setReadingAloudIds] = useState<Set<string>>(new Set());
+    const chatSession = useRef<ChatSession | null>(null);
+    // Set when the session no longer matches the visible history (after a stop, failure or version switch).
+    const chatSessionStaleRef = useRef(false);
+    const abortControllerRef = useRef<AbortController | null>(null);
+    // Background job updates arrive outside of React's render cycle and need the current conversation.
+    const activeConversationIdRef = useRef<string | null>(null);
     const messagesEndRef = useRef<HTMLDivElement>(null);
-    
+    // The message list most recently loaded from or written to the store, used to skip redundant saves.
+    const persistedMessagesRef = useRef<ChatMessage[] | null>(null);
+    // Resolvers for side-effecting tool calls that are waiting for the user to allow or deny them.
+    const toolConfirmationsRef = useRef(new Map<string, (approved: boolean) => void>());
+
+    const openConversation = useCallback((conversation: Conversation) => {
+        persistedMessagesRef.current = conversation.messages;
+        activeConversationIdRef.current = conversation.id;
+        setActiveConversationId(conversation.id);
+        setMessages(conversation.messages);
+        setSourcesMessageId(null);
+        setActiveSource(null);
+        chatSession.current = createChatSession(conversation.messages, conversation.settings);
+        chatSessionStaleRef.current = false;
+    }, []);
+
+    const handleNewConversation = useCallback(() => {
+        setActiveFeature('chat');
+        if (activeConversationId && messages.length === 0) return;
+        const conversation = createConversation();
+        setConversations(prev => [conversation, ...prev]);
+        openConversation(conversation);
+    }, [activeConversationId, messages.length, openConversation]);
+
+    useEffect(() => {
+        let cancelled = false;
+        listConversations()
+            .catch(error => {
+                console.error("Error loading conversations:", error);
+                return [];
+            })
+            .then(stored => {
+                if (cancelled) return;
+                const conversation = stored[0] ?? createConversation();
+                setConversations(stored.length > 0 ? stored : [conversation]);
+                openConversation(conversation);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [openConversation]);
+
     useEffect(() => {
-        chatSession.current = createChatSession();
+        const applyJob = (job: VideoJob) => {
+            const updateMessage = (message: ChatMessage) => message.id === job.messageId ? applyVideoJobToMessage(message, job) : message;
+            if (job.conversationId === activeConversationIdRef.current) {
+                setMessages(prev => prev.map(updateMessage));
+                return;
+            }
+            // Jobs for other conversations are written straight to the store.
+            getConversation(job.conversationId)
+                .then(conversation => {
+                    if (!conversation) return;
+                    const updated = { ...conversation, messages: conversation.messages.map(updateMessage) };
+                    setConversations(prev => prev.map(c => c.id === updated.id ? updated : c));
+                    return saveConversation(updated);
+                })
+                .catch(error => console.error("Error updating video job message:", error));
+        };
+        const unsubscribe = subscribeToVideoJobs(applyJob);
+        resumeVideoJobs();
+        return unsubscribe;
     }, []);
 
+    useEffect(() => {
+        if (!activeConversationId || isLoading || messages === persistedMessagesRef.current) return;
+        const existing = conversations.find(c => c.id === activeConversationId);
+        if (!existing) return;
+
+        persistedMessagesRef.current = messages;
+        const updated: Conversation = {
+            ...existing,
+            messages,
+            updatedAt: Date.now(),
+            title: existing.title === DEFAULT_CONVERSATION_TITLE ? deriveTitle(messages) ?? existing.title : existing.title,
+        };
+        setConversations(prev => [updated, ...prev.filter(c => c.id !== updated.id)]);
+        saveConversation(updated).catch(error => console.error("Error saving conversation:", error));
+    }, [messages, isLoading, activeConversationId, conversations]);
+
+    const activeSettings = conversations.find(c => c.id === activeConversationId)?.settings ?? DEFAULT_CONVERSATION_SETTINGS;
+
+    const handleSelectConversation = (id: string) => {
+        const conversation = conversations.find(c => c.id === id);
+        if (!conversation || id === activeConversationId) return;
+        openConversation(conversation);
+        setActiveFeature('chat');
+    };
+
+    const handleRenameConversation = (id: string, title: string) => {
+        const conversation = conversations.find(c => c.id === id);
+        if (!conversation) return;
+        const renamed = { ...conversation, title };
+        setConversations(prev => prev.map(c => c.id === id ? renamed : c));
+        saveConversation(renamed).catch(error => console.error("Error renaming conversation:", error));
+    };
+
+    const handleDeleteConversation = (id: string) => {
+        const remaining = conversations.filter(c => c.id !== id);
+        deleteConversation(id).catch(error => console.error("Error deleting conversation:", error));
+        if (id !== activeConversationId) {
+            setConversations(remaining);
+            return;
+        }
+        const next = remaining[0] ?? createConversation();
+        setConversations(remaining.length > 0 ? remaining : [next]);
+        openConversation(next);
+    };
+
     useEffect(() => {
         messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
     }, [messages]);
 
-    const handleSendMessage = async (userPrompt: string) => {
-        if (isLoading || !userPrompt.trim()) return;
-
+    // Streams a model reply to `userMessage` into the message `modelMessageId`, which must already be in the list.
+    // `history` is everything before `userMessage`; the session is rebuilt from it when it may have diverged.
+    // When `continuing` is given, the reply is appended to that message's text instead of replacing it.
+    const streamModelReply = async (history: ChatMessage[], userMessage: ChatMessage, modelMessageId: string, resetSession = false, continuing?: ChatMessage) => {
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
         setIsLoading(true);
-        const newUserMessage: ChatMessage = { id: Date.now().toString(), role: ChatMessageRole.USER, text: userPrompt };
-        setMessages(prev => [...prev, newUserMessage]);
-        setPrompt('');
+        setSourcesMessageId(null);
+        setActiveSource(null);
 
-        const modelMessageId = (Date.now() + 1).toString();
-        const initialModelMessage: ChatMessage = { id: modelMessageId, role: ChatMessageRole.MODEL, text: '', isLoading: true };
-        setMessages(prev => [...prev, initialModelMessage]);
+        const updateReply = (update: Partial<ChatMessage>) =>
+            setMessages(prev => prev.map(msg => msg.id === modelMessageId ? { ...msg, ...update } : msg));
+        const updateToolCall = (record: ToolCallRecord) =>
+            setMessages(prev => prev.map(msg => {
+                if (msg.id !== modelMessageId) return msg;
+                const toolCalls = msg.toolCalls ?? [];
+                return { ...msg, toolCalls: toolCalls.some(c => c.id === record.id) ? toolCalls.map(c => c.id === record.id ? record : c) : [...toolCalls, record] };
+            }));
+
+        // Media created by tools in this reply; tools can build on it within the same turn.
+        const replyMedia: Media[] = [];
+        const toolContext: ToolContext = {
+            signal: controller.signal,
+            conversationId: activeConversationIdRef.current!,
+            messageId: modelMessageId,
+            images: [...history, userMessage].flatMap(m => (m.media ?? []).filter(media => media.type === 'image')),
+            attachMedia: (media) => {
+                replyMedia.push(...media);
+                toolContext.images.push(...media.filter(item => item.type === 'image'));
+                setMessages(prev => prev.map(msg => msg.id === modelMessageId ? { ...msg, media: [...(msg.media ?? []), ...media] } : msg));
+            },
+        };
+
+        const executeTool = async (call: ToolCallRequest): Promise<Record<string, unknown>> => {
+            const record: ToolCallRecord = { ...call, status: 'running' };
+            const tool = getTool(call.name);
+            if (tool?.sideEffects) {
+                updateToolCall({ ...record, status: 'awaiting-confirmation' });
+                const approved = await new Promise<boolean>(resolve => {
+                    toolConfirmationsRef.current.set(call.id, resolve);
+                    controller.signal.addEventListener('abort', () => resolve(false));
+                });
+                toolConfirmationsRef.current.delete(call.id);
+                if (!approved) {
+                    const response = { error: 'The user declined to run this tool.' };
+                    updateToolCall({ ...record, status: 'denied', result: JSON.stringify(response) });
+                    return response;
+                }
+            }
+            if (tool?.billed && !confirmWithinBudget()) {
+                const response = { error: 'The user declined to run this tool because the daily budget has been reached.' };
+                updateToolCall({ ...record, status: 'denied', result: JSON.stringify(response) });
+                return response;
+            }
+            updateToolCall(record);
+            const response = await runTool(call, toolContext);
+            updateToolCall({ ...record, status: 'error' in response ? 'failed' : 'succeeded', result: JSON.stringify(response, null, 2).slice(0, 2000) });
+            return response;
+        };
 
         try {
-            if (!chatSession.current) throw new Error("Chat session not initialized.");
-            const stream = await streamChat(chatSession.current, userPrompt);
-            let fullText = '';
-            let currentSources: Source[] = [];
+            if (resetSession || chatSessionStaleRef.current || !chatSession.current) {
+                chatSession.current = createChatSession(history, activeSettings);
+                chatSessionStaleRef.current = false;
+            }
+            const inlineAttachments = (userMessage.media ?? []).map(media => ({ data: media.base64Data!, mimeType: media.mimeType! }));
+            const stream = await streamChat(chatSession.current, userMessage.text, inlineAttachments, controller.signal, executeTool, toolContext.conversationId);
+            let fullText = continuing?.text ?? '';
+            let currentSources: Source[] = continuing?.sources ?? [];
+            let currentCitations: Citation[] = continuing?.citations ?? [];
+            let currentFinish: ResponseFinish | undefined;
+            let currentUsage = continuing?.usage;
+            const model = chatSession.current.model;
 
             for await (const chunk of stream) {
+                if (controller.signal.aborted) break;
                 fullText += chunk.text;
                 
-                const groundingMetadata = chunk.candidates?.[0]?.groundingMetadata;
-                if(groundingMetadata?.groundingChunks){
-                    const newSources = groundingMetadata.groundingChunks
-                    .filter(c => c.web)
-                    .map((c: any, i: number) => ({
-                        id: `S${i+1}`,
-                        url: c.web.uri,
-                        title: c.web.title,
-                        domain: new URL(c.web.uri).hostname,
-                    }));
-                    currentSources = newSources;
-                    setSources(newSources); // update sources panel live
+                // Citation offsets of a continuation would not line up with the earlier text, so its grounding is dropped.
+                if (chunk.sources && !continuing) {
+                    currentSources = chunk.sources;
+                }
+                if (chunk.citations && !continuing) {
+                    currentCitations = chunk.citations;
+                }
+                if (chunk.finish) {
+                    currentFinish = chunk.finish;
+                }
+                if (chunk.usage) {
+                    currentUsage = continuing?.usage ? addUsage(continuing.usage, chunk.usage) : chunk.usage;
                 }
 
-                setMessages(prev => prev.map(msg => msg.id === modelMessageId ? { ...msg, text: fullText, sources: currentSources } : msg));
+                updateReply({ text: fullText, sources: currentSources, citations: currentCitations, finish: currentFinish, usage: currentUsage, model });
+            }
+            // The session only saw the function responses, so it is rebuilt to give follow-ups the generated media.
+            if (controller.signal.aborted || replyMedia.length > 0) {
+                chatSessionStaleRef.current = true;
             }
-
-            setMessages(prev => prev.map(msg => msg.id === modelMessageId ? { ...msg, isLoading: false } : msg));
-
         } catch (error) {
-            console.error("Error streaming chat:", error);
-            setMessages(prev => prev.map(msg => msg.id === modelMessageId ? { ...msg, text: "Sorry, I encountered an error. Please try again.", isLoading: false } : msg));
+            chatSessionStaleRef.current = true;
+            if (!controller.signal.aborted) {
+                console.error("Error streaming chat:", error);
+                const classified = classifyError(error);
+                updateReply({ error: classified.message, errorKind: classified.kind });
+            }
         } finally {
+            setMessages(prev => prev.map(msg => msg.id === modelMessageId ? syncActiveVersion({ ...msg, isLoading: false }) : msg));
+            abortControllerRef.current = null;
             setIsLoading(false);
         }
     };
-    
+
+    // Asks before sending once today's estimated spend has reached the budget set in the usage dashboard.
+    const confirmWithinBudget = () => {
+        const { dailyLimit } = getUsageBudget();
+        const spent = getTodaysCost();
+        if (!dailyLimit || spent < dailyLimit) return true;
+        return window.confirm(`Today's estimated spend (${formatCost(spent)}) has reached your daily budget of ${formatCost(dailyLimit)}. Send anyway?`);
+    };
+
+    const handleSendMessage = async (userPrompt: string, userAttachments: Media[] = []) => {
+        if (isLoading || (!userPrompt.trim() && userAttachments.length === 0)) return;
+        if (!confirmWithinBudget()) return;
+
+        const newUserMessage: ChatMessage = {
+            id: Date.now().toString(),
+            role: ChatMessageRole.USER,
+            text: userPrompt,
+            media: userAttachments.length > 0 ? userAttachments : undefined,
+        };
+        const modelMessageId = (Date.now() + 1).toString();
+        const initialModelMessage: ChatMessage = { id: modelMessageId, role: ChatMessageRole.MODEL, text: '', isLoading: true };
+        setMessages(prev => [...prev, newUserMessage, initialModelMessage]);
+        setPrompt('');
+        setAttachments([]);
+        for (const media of userAttachments) {
+            addToLibrary(media.url, { source: 'uploaded', name: media.name, conversationId: activeConversationId ?? undefined });
+        }
+
+        await streamModelReply(messages, newUserMessage, modelMessageId);
+    };
+
+    // Asks the model to pick up a reply that hit the output token limit, appending to the same message.
+    const handleContinue = async (modelMessageId: string) => {
+        const index = messages.findIndex(m => m.id === modelMessageId);
+        if (isLoading || index < 0 || !confirmWithinBudget()) return;
+
+        const reply = messages[index];
+        const continuePrompt: ChatMessage = { id: Date.now().toString(), role: ChatMessageRole.USER, text: CONTINUE_PROMPT };
+        setMessages(prev => prev.map(msg => msg.id === modelMessageId ? { ...msg, finish: undefined, isLoading: true } : msg));
+
+        await streamModelReply(messages.slice(0, index + 1), continuePrompt, modelMessageId, false, reply);
+    };
+
+    const handleStop = () => {
+        abortControllerRef.current?.abort();
+    };
+
+    // A reply can be regenerated when it directly answers a user prompt.
+    const getPromptIndex = (modelIndex: number) =>
+        modelIndex > 0 && messages[modelIndex - 1].role === ChatMessageRole.USER ? modelIndex - 1 : -1;
+
+    const handleRegenerate = async (modelMessageId: string) => {
+        const modelIndex = messages.findIndex(m => m.id === modelMessageId);
+        const promptIndex = getPromptIndex(modelIndex);
+        if (isLoading || promptIndex < 0 || !confirmWithinBudget()) return;
+
+        const reply = messages[modelIndex];
+        // A failed reply with nothing streamed is retried in place instead of becoming a version.
+        const restarted = reply.error && !reply.text ? { ...reply, error: undefined, errorKind: undefined } : startNewVersion(reply);
+        setMessages(prev => prev.slice(0, modelIndex + 1).map(msg => msg.id === modelMessageId ? { ...restarted, isLoading: true } : msg));
+
+        const history = messages.slice(0, promptIndex);
+        const userMessage = messages[promptIndex];
+        const command = userMessage.origin === 'command' ? parseSlashCommand(userMessage.text) : null;
+        const runner = command && getMediaCommandRunner(command, history);
+        if (runner) {
+            await runMediaCommand(modelMessageId, runner);
+        } else {
+            await streamModelReply(history, userMessage, modelMessageId, true);
+        }
+    };
+
+    // Editing a prompt forks the conversation: everything after it is dropped and the reply is generated again.
+    const handleEditAndResend = async (userMessageId: string, text: string) => {
+        const index = messages.findIndex(m => m.id === userMessageId);
+        if (isLoading || index < 0 || !confirmWithinBudget()) return;
+
+        const history = messages.slice(0, index);
+        const command = parseSlashCommand(text);
+        const runner = command && getMediaCommandRunner(command, history);
+        const origin = runner ? 'command' : messages[index].origin === 'command' ? undefined : messages[index].origin;
+        const editedMessage: ChatMessage = { ...messages[index], text, origin };
+        const modelMessageId = Date.now().toString();
+        setMessages([...history, editedMessage, { id: modelMessageId, role: ChatMessageRole.MODEL, text: '', isLoading: true }]);
+
+        if (runner) {
+            await runMediaCommand(modelMessageId, runner);
+        } else {
+            await streamModelReply(history, editedMessage, modelMessageId, true);
+        }
+    };
+
+    const handleConfirmToolCall = (callId: string, approved: boolean) => {
+        toolConfirmationsRef.current.get(callId)?.(approved);
+    };
+
+    const handleToggleToolUse = () => {
+        setToolUseEnabled(!toolUseEnabled);
+        setToolUseEnabledState(!toolUseEnabled);
+        chatSession.current = createChatSession(messages, activeSettings);
+        chatSessionStaleRef.current = false;
+    };
+
+    const handleSelectVersion = (messageId: string, index: number) => {
+        setMessages(prev => prev.map(msg => msg.id === messageId ? selectVersion(msg, index) : msg));
+        chatSessionStaleRef.current = true;
+    };
+
+    const handleExportConversation = async (id: string, format: ExportFormat) => {
+        const conversation = conversations.find(c => c.id === id);
+        if (!conversation) return;
+        // The active conversation may have unsaved changes, so export what is on screen.
+        const current = id === activeConversationId ? { ...conversation, messages } : conversation;
+        try {
+            const blob = await exportConversation(current, format);
+            const filename = `${current.title.replace(/[^\w\- ]+/g, '').trim() || 'conversation'}.${EXPORT_FILE_TYPES[format].extension}`;
+            downloadBlob(blob, filename);
+        } catch (error) {
+            console.error("Error exporting conversation:", error);
+            window.alert('Failed to export the conversation.');
+        }
+    };
+
+    const handleImportConversation = async (file: File) => {
+        try {
+            const conversation = importConversationFromJson(await file.text());
+            await saveConversation(conversation);
+            setConversations(prev => [conversation, ...prev]);
+            openConversation(conversation);
+            setActiveFeature('chat');
+        } catch (error) {
+            console.error("Error importing conversation:", error);
+            window.alert(error instanceof Error ? error.message : 'Failed to import the conversation.');
+        }
+    };
+
+    // New settings take effect from the next reply; the session is recreated with the existing history.
+    const handleSaveConversationSettings = (settings: ConversationSettings) => {
+        setIsSettingsDrawerOpen(false);
+        const conversation = conversations.find(c => c.id === activeConversationId);
+        if (!conversation) return;
+        const updated = { ...conversation, settings };
+        setConversations(prev => prev.map(c => c.id === updated.id ? updated : c));
+        saveConversation({ ...updated, messages }).catch(error => console.error("Error saving conversation settings:", error));
+        chatSession.current = createChatSession(messages, settings);
+        chatSessionStaleRef.current = false;
+    };
+
+    const handleSaveProviderSettings = (settings: ProviderSettings) => {
+        setProviderSettings(settings);
+        setProviderSettingsState(settings);
+        chatSession.current = createChatSession(messages, activeSettings);
+        setIsProviderDialogOpen(false);
+    };
+
+    const handleSourceClick = (message: ChatMessage, sourceId: string) => {
+        setSourcesMessageId(message.id);
+        setActiveSource(message.sources?.find(s => s.id === sourceId) ?? null);
+    };
+
+    const sourcesMessage = messages.find(m => m.id === sourcesMessageId)
+        ?? [...messages].reverse().find(m => m.sources && m.sources.length > 0);
+    const sources = sourcesMessage?.sources ?? [];
+    const chatImages = messages.flatMap(m => (m.media ?? []).filter(media => media.type === 'image'));
+
     const handleFeatureSelect = (feature: ActiveFeature) => {
         setActiveFeature(feature);
+        setEditorImageUrl(undefined);
+        setVideoInputImage(undefined);
+        setVideoToExtend(undefined);
     };
 
     const addMediaMessage = useCallback((media: Media[], text: string) => {
@@ -141,22 +479,173 @@ export default function App() {
         setActiveFeature('chat');
     }, []);
     
+    // Voice turns join the conversation like typed ones, so the text session has to pick them up.
+    const handleLiveTurn = useCallback((turn: ChatMessage[]) => {
+        setMessages(prev => [...prev, ...turn]);
+        chatSessionStaleRef.current = true;
+    }, []);
+
+    const handleGenerateVideo = (request: VideoGenerationRequest) => {
+        if (!activeConversationId) return;
+        const job = startVideoJob({ ...request, conversationId: activeConversationId, messageId: Date.now().toString() });
+        setMessages(prev => [...prev, createPendingVideoMessage(job)]);
+        setActiveFeature('chat');
+    };
+
+    // Image commands run in the chat: the command stays visible as the user's turn and the result becomes the reply.
+    // `history` is everything before the command's turn. Other commands, and image commands without a prompt, return undefined.
+    const getMediaCommandRunner = ({ name, args }: SlashCommand, history: ChatMessage[]): MediaCommandRunner | undefined => {
+        const conversationId = activeConversationId ?? undefined;
+        if (!args) return undefined;
+        if (name === 'image') {
+            return async (signal) => {
+                const [url] = await generateImage(args, { aspectRatio: '1:1', numberOfImages: 1, outputMimeType: 'image/jpeg' }, conversationId);
+                signal.throwIfAborted();
+                addToLibrary(url, { source: 'generated', prompt: args, model: getActiveProvider().imageModel, aspectRatio: '1:1', conversationId });
+                return { text: 'Here is the image I generated for you:', media: [imageUrlToMedia(url, args)] };
+            };
+        }
+        if (name === 'edit') {
+            return async (signal) => {
+                const latest = history.flatMap(m => (m.media ?? []).filter(media => media.type === 'image')).pop();
+                if (!latest) throw new Error('There is no image in this conversation to edit. Attach or generate one first.');
+                const image = parseDataUrl(await mediaToDataUrl(latest));
+                if (!image) throw new Error('The latest image could not be read.');
+                signal.throwIfAborted();
+                const url = await editImage(args, image, undefined, conversationId);
+                signal.throwIfAborted();
+                addToLibrary(url, { source: 'edited', prompt: args, model: getActiveProvider().imageEditModel, conversationId });
+                return { text: `I've applied the edit: "${args}"`, media: [imageUrlToMedia(url, args)] };
+            };
+        }
+        return undefined;
+    };
+
+    // Fills the reply `replyId`, which must already be in the list, with the result of an image command.
+    // Stop settles the reply straight away; a result that arrives afterwards is discarded.
+    const runMediaCommand = async (replyId: string, run: MediaCommandRunner) => {
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        setIsLoading(true);
+        // The chat session never sees these turns, so it is rebuilt before the next message.
+        chatSessionStaleRef.current = true;
+        const updateReply = (update: Partial<ChatMessage>) =>
+            setMessages(prev => prev.map(msg => msg.id === replyId ? syncActiveVersion({ ...msg, ...update, isLoading: false }) : msg));
+        const stopped = new Promise<never>((_, reject) =>
+            controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true }));
+        try {
+            updateReply(await Promise.race([run(controller.signal), stopped]));
+        } catch (error) {
+            if (controller.signal.aborted) {
+                updateReply({ error: 'Stopped before the command finished.' });
+            } else {
+                console.error("Error running command:", error);
+                const classified = classifyError(error);
+                updateReply({ error: classified.message, errorKind: classified.kind });
+            }
+        } finally {
+            abortControllerRef.current = null;
+            setIsLoading(false);
+        }
+    };
+
+    const handleSlashCommand = (command: SlashCommand) => {
+        const { name, args } = command;
+        if (args && (name === 'image' || name === 'edit' || name === 'video') && !confirmWithinBudget()) return;
+        setPrompt('');
+        const runner = getMediaCommandRunner(command, messages);
+        if (runner) {
+            const userMessage: ChatMessage = { id: Date.now().toString(), role: ChatMessageRole.USER, text: `/${name} ${args}`, origin: 'command' };
+            const replyId = (Date.now() + 1).toString();
+            setMessages(prev => [...prev, userMessage, { id: replyId, role: ChatMessageRole.MODEL, text: '', isLoading: true }]);
+            runMediaCommand(replyId, runner);
+            return;
+        }
+        switch (name) {
+            case 'image':
+                return handleFeatureSelect('image-gen');
+            case 'edit':
+                return handleFeatureSelect('image-edit');
+            case 'video':
+                if (!args) return handleFeatureSelect('video-gen');
+                handleGenerateVideo({ prompt: args, options: getDefaultVideoOptions() });
+                return;
+            case 'live':
+                return handleFeatureSelect('live');
+            case 'search':
+                return handleSaveConversationSettings({ ...activeSettings, searchEnabled: args.toLowerCase() === 'on' });
+            case 'system':
+                if (!args) return setIsSettingsDrawerOpen(true);
+                return handleSaveConversationSettings({ ...activeSettings, systemPrompt: args.toLowerCase() === 'clear' ? '' : args });
+            case 'export':
+                if (activeConversationId) handleExportConversation(activeConversationId, (args.toLowerCase() || 'markdown') as ExportFormat);
+                return;
+            case 'templates':
+                return setIsTemplatesDialogOpen(true);
+        }
+    };
+
+    const handleEditLibraryAsset = async (asset: MediaAsset) => {
+        setEditorImageUrl(await blobToDataUrl(asset.blob));
+        setActiveFeature('image-edit');
+    };
+
+    const handleAnimateLibraryAsset = (asset: MediaAsset) => {
+        setVideoInputImage(new File([asset.blob], getAssetFileName(asset), { type: asset.mimeType }));
+        setVideoToExtend(undefined);
+        setActiveFeature('video-gen');
+    };
+
+    // The audio is kept on the message so it can be replayed and is saved with the conversation.
+    const handleReadAloud = async (message: ChatMessage) => {
+        const { voices } = getSpeechCapabilities();
+        const voice = activeSettings.speechVoice && voices.includes(activeSettings.speechVoice) ? activeSettings.speechVoice : voices[0];
+        setReadingAloudIds(prev => new Set(prev).add(message.id));
+        try {
+            const url = await generateSpeech(toSpeechText(message.text), voice, activeConversationId ?? undefined);
+            const audio: Media = { type: 'audio', url, mimeType: 'audio/wav', name: `read-aloud-${voice}.wav` };
+            setMessages(prev => prev.map(msg => msg.id === message.id ? syncActiveVersion({ ...msg, media: [...(msg.media ?? []), audio] }) : msg));
+            new Audio(url).play().catch(error => console.warn("Could not start playback:", error));
+        } catch (error) {
+            console.error("Error generating speech:", error);
+            window.alert(classifyError(error).message);
+        } finally {
+            setReadingAloudIds(prev => {
+                const next = new Set(prev);
+                next.delete(message.id);
+                return next;
+            });
+        }
+    };
+
+    const handleExtendVideo = (video: Media) => {
+        setVideoToExtend(video);
+        setVideoInputImage(undefined);
+        setActiveFeature('video-gen');
+    };
+
     const renderFeaturePanel = () => {
         switch (activeFeature) {
             case 'image-gen':
-                return <ImageGeneratorPanel onGenerationComplete={(url, prompt) => addMediaMessage([{ type: 'image', url, prompt }], "Here is the image I generated for you:")} />;
+                return <ImageGeneratorPanel conversationId={activeConversationId} onGenerationComplete={(images) => addMediaMessage(images.map(image => imageUrlToMedia(image.url, image.prompt)), images.length > 1 ? "Here are the images I generated for you:" : "Here is the image I generated for you:")} />;
             case 'image-edit':
-                 return <ImageEditorPanel onEditComplete={(url, originalUrl, prompt) => addMediaMessage([{type: 'image', url: originalUrl}, { type: 'image', url, prompt }], `I've applied the edit: "${prompt}"`)} />;
+                 return <ImageEditorPanel conversationId={activeConversationId} chatImages={chatImages} initialImageUrl={editorImageUrl} onEditComplete={(url, originalUrl, prompt) => addMediaMessage([imageUrlToMedia(originalUrl), imageUrlToMedia(url, prompt)], `I've applied the edit: "${prompt}"`)} />;
             case 'video-gen':
-                return <VideoGeneratorPanel onGenerationComplete={(url, prompt, thumbUrl) => addMediaMessage([{ type: 'video', url, prompt }], `Here is the video I generated based on your image and prompt: "${prompt}"`)} />;
+                return <VideoGeneratorPanel initialImage={videoInputImage} extendVideo={videoToExtend} onGenerate={handleGenerateVideo} />;
+            case 'library':
+                return <MediaLibraryPanel onUseInEditor={handleEditLibraryAsset} onUseForVideo={handleAnimateLibraryAsset} />;
             case 'live':
-                return <LiveConversation />;
+                return <LiveConversation history={messages} onTurn={handleLiveTurn} />;
             case 'chat':
             default:
                 return null;
         }
     };
 
+    if (providerSettings.kind === 'gemini' && providerSettings.geminiConnection === 'direct' && !providerSettings.geminiApiKey) {
+        return <ApiKeyScreen settings={providerSettings} onSave={handleSaveProviderSettings} />;
+    }
+
     return (
         <div className="h-screen w-screen bg-gray-900 text-white flex flex-col md:flex-row font-sans">
             {/* Sidebar */}
@@ -176,6 +665,9 @@ export default function App() {
                 <button onClick={() => handleFeatureSelect('video-gen')} className={`p-3 rounded-lg ${activeFeature === 'video-gen' ? 'bg-green-600' : 'bg-gray-800 hover:bg-green-600'}`} title="Generate Video">
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" /></svg>
                 </button>
+                <button onClick={() => handleFeatureSelect('library')} className={`p-3 rounded-lg ${activeFeature === 'library' ? 'bg-orange-600' : 'bg-gray-800 hover:bg-orange-600'}`} title="Media Library">
+                    <FolderIcon className="w-6 h-6" />
+                </button>
             </div>
             
             {/* Main Content */}
@@ -183,13 +675,52 @@ export default function App() {
                 <header className="flex-shrink-0 bg-gray-800 p-4 border-b border-gray-700 flex items-center justify-between">
                     <h1 className="text-xl font-bold">Tamur AI</h1>
                     <div className="flex items-center gap-2">
+                        <button
+                            onClick={() => setIsSettingsDrawerOpen(true)}
+                            disabled={isLoading || !activeConversationId}
+                            className="flex items-center gap-1 text-sm text-gray-400 hover:text-white disabled:cursor-not-allowed"
+                            title="Model, system prompt and generation settings for this conversation"
+                        >
+                            <SlidersIcon className="w-5 h-5" />
+                            {activeSettings.model || 'Default model'}
+                        </button>
+                        <button
+                            onClick={handleToggleToolUse}
+                            disabled={isLoading}
+                            className={`flex items-center gap-1 text-sm disabled:cursor-not-allowed ${toolUseEnabled ? 'text-blue-300 hover:text-blue-200' : 'text-gray-400 hover:text-white'}`}
+                            title={toolUseEnabled ? 'Tools are on: the model can call functions instead of searching the web' : 'Tools are off: replies are grounded with web search'}
+                        >
+                            <WrenchIcon className="w-5 h-5" />
+                            {toolUseEnabled ? 'Tools on' : 'Tools off'}
+                        </button>
+                        <button onClick={() => setIsUsageDashboardOpen(true)} className="flex items-center gap-1 text-sm text-gray-400 hover:text-white" title="Token usage and estimated cost">
+                            <ChartIcon className="w-5 h-5" />
+                            Usage
+                        </button>
+                        <button onClick={() => setIsProviderDialogOpen(true)} disabled={isLoading} className="flex items-center gap-1 text-sm text-gray-400 hover:text-white disabled:cursor-not-allowed mr-2" title="Model provider">
+                            <CogIcon className="w-5 h-5" />
+                            {providerSettings.kind === 'gemini' ? 'Gemini' : 'OpenAI-compatible'}
+                        </button>
                         <span className="text-sm text-gray-400">Guest</span>
                         <UserIcon className="w-8 h-8 p-1 bg-gray-700 rounded-full" />
                     </div>
                 </header>
                 
                 <div className="flex-1 flex min-h-0">
-                    <div className="flex-1 flex flex-col bg-gray-900">
+                    {activeFeature === 'chat' && (
+                        <ConversationSidebar
+                            conversations={conversations}
+                            activeConversationId={activeConversationId}
+                            disabled={isLoading}
+                            onSelect={handleSelectConversation}
+                            onNew={handleNewConversation}
+                            onRename={handleRenameConversation}
+                            onDelete={handleDeleteConversation}
+                            onExport={handleExportConversation}
+                            onImport={handleImportConversation}
+                        />
+                    )}
+                    <div className="flex-1 flex flex-col bg-gray-900 relative">
                       {activeFeature !== 'chat' ? 
                           <div className="p-4 flex-1">{renderFeaturePanel()}</div> 
                           :
@@ -201,25 +732,51 @@ export default function App() {
                                         <h2 className="text-2xl">How can I help you today?</h2>
                                     </div>
                                 )}
-                                {messages.map(msg => <Message key={msg.id} message={msg} onSourceClick={(id) => setActiveSource(sources.find(s => s.id === id) || null)} />)}
-                                <div ref={messagesEndRef} />
-                            </div>
-                            <div className="p-4 border-t border-gray-700">
-                                <div className="bg-gray-800 rounded-lg flex items-center p-2">
-                                    <textarea
-                                        value={prompt}
-                                        onChange={e => setPrompt(e.target.value)}
-                                        onKeyDown={e => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSendMessage(prompt); } }}
-                                        placeholder="Ask Tamur AI anything..."
-                                        className="flex-1 bg-transparent focus:outline-none resize-none max-h-32"
-                                        rows={1}
+                                {messages.map((msg, index) => (
+                                    <Message
+                                        key={msg.id}
+                                        message={msg}
+                                        onSourceClick={(id) => handleSourceClick(msg, id)}
                                         disabled={isLoading}
+                                        onRegenerate={msg.role === ChatMessageRole.MODEL && index === messages.length - 1 && getPromptIndex(index) >= 0 ? () => handleRegenerate(msg.id) : undefined}
+                                        onEdit={msg.role === ChatMessageRole.USER ? (text) => handleEditAndResend(msg.id, text) : undefined}
+                                        onSelectVersion={(versionIndex) => handleSelectVersion(msg.id, versionIndex)}
+                                        onCancelJob={cancelVideoJob}
+                                        onExtendVideo={getVideoCapabilities().extend ? handleExtendVideo : undefined}
+                                        onReadAloud={msg.role === ChatMessageRole.MODEL && getSpeechCapabilities().voices.length > 0 ? () => handleReadAloud(msg) : undefined}
+                                        isReadingAloud={readingAloudIds.has(msg.id)}
+                                        onOpenProviderSettings={() => setIsProviderDialogOpen(true)}
+                                        onContinue={msg.role === ChatMessageRole.MODEL && index === messages.length - 1 && msg.finish?.reason === 'max-tokens' ? () => handleContinue(msg.id) : undefined}
+                                        onConfirmToolCall={handleConfirmToolCall}
                                     />
-                                    <button onClick={() => handleSendMessage(prompt)} disabled={isLoading || !prompt.trim()} className="p-2 rounded-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 transition-colors">
-                                        <SendIcon className="w-5 h-5 text-white" />
-                                    </button>
-                                </div>
+                                ))}
+                                <div ref={messagesEndRef} />
                             </div>
+                            {activeSource && (
+                                <div className="absolute bottom-24 right-4 w-72 bg-gray-800 border border-gray-600 rounded-lg shadow-xl p-3 z-10">
+                                    <div className="flex items-start justify-between gap-2">
+                                        <span className="bg-blue-800 text-blue-200 text-xs font-bold px-2 py-0.5 rounded-full">{activeSource.id}</span>
+                                        <button onClick={() => setActiveSource(null)} className="text-gray-400 hover:text-white" title="Close">
+                                            <XIcon className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                    <p className="font-bold text-sm text-blue-200 mt-2">{activeSource.title}</p>
+                                    <p className="text-xs text-gray-400 mb-2">{activeSource.domain}</p>
+                                    <a href={activeSource.url} target="_blank" rel="noopener noreferrer" className="text-xs text-blue-400 hover:underline break-all">{activeSource.url}</a>
+                                </div>
+                            )}
+                            <ChatComposer
+                                prompt={prompt}
+                                onPromptChange={setPrompt}
+                                attachments={attachments}
+                                onAttachmentsChange={setAttachments}
+                                onSend={() => handleSendMessage(prompt, attachments)}
+                                conversationId={activeConversationId ?? undefined}
+                                onCommand={handleSlashCommand}
+                                templates={promptTemplates}
+                                onStop={handleStop}
+                                disabled={isLoading}
+                            />
                           </>
                       }
                     </div>
@@ -229,8 +786,8 @@ export default function App() {
                            <h2 className="text-lg font-semibold mb-4 text-blue-300">Sources</h2>
                             <div className="space-y-3">
                                 {sources.map(source => (
-                                    <a key={source.id} href={source.url} target="_blank" rel="noopener noreferrer" className="block bg-gray-700 p-3 rounded-lg hover:bg-gray-600 transition-colors">
-                                        <p className="font-bold text-sm text-blue-200 truncate">{source.title}</p>
+                                    <a key={source.id} href={source.url} target="_blank" rel="noopener noreferrer" className={`block bg-gray-700 p-3 rounded-lg hover:bg-gray-600 transition-colors ${activeSource?.id === source.id ? 'ring-2 ring-blue-500' : ''}`}>
+                                        <p className="font-bold text-sm text-blue-200 truncate"><span className="text-gray-400 mr-1">{source.id}</span>{source.title}</p>
                                         <p className="text-xs text-gray-400">{source.domain}</p>
                                     </a>
                                 ))}
@@ -239,6 +796,29 @@ export default function App() {
                     )}
                 </div>
             </main>
+            {isSettingsDrawerOpen && (
+                <ConversationSettingsDrawer
+                    settings={activeSettings}
+                    models={getChatModels()}
+                    voices={getSpeechCapabilities().voices}
+                    toolUseEnabled={toolUseEnabled}
+                    onSave={handleSaveConversationSettings}
+                    onClose={() => setIsSettingsDrawerOpen(false)}
+                />
+            )}
+            {isUsageDashboardOpen && (
+                <UsageDashboard conversationId={activeConversationId} onClose={() => setIsUsageDashboardOpen(false)} />
+            )}
+            {isTemplatesDialogOpen && (
+                <PromptTemplatesDialog onChange={setPromptTemplates} onClose={() => setIsTemplatesDialogOpen(false)} />
+            )}
+            {isProviderDialogOpen && (
+                <ProviderSettingsDialog
+                    settings={providerSettings}
+                    onSave={handleSaveProviderSettings}
+                    onClose={() => setIsProviderDialogOpen(false)}
+                />
+            )}
         </div>
     );
 }
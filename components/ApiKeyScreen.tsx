@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import type { ProviderSettings } from '../services/providers/types';
+import { SparklesIcon } from './icons';
+
+interface ApiKeyScreenProps {
+  settings: ProviderSettings;
+  onSave: (settings: ProviderSettings) => void;
+}
+
+// Shown instead of the app while the Gemini backend is used directly and no key has been entered yet.
+const ApiKeyScreen: React.FC<ApiKeyScreenProps> = ({ settings, onSave }) => {
+    const [apiKey, setApiKey] = useState('');
+    const [proxyUrl, setProxyUrl] = useState(settings.proxyUrl);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (apiKey.trim()) {
+            onSave({ ...settings, geminiConnection: 'direct', geminiApiKey: apiKey.trim() });
+        }
+    };
+
+    return (
+        <div className="h-screen bg-gray-900 text-white flex items-center justify-center p-4">
+            <div className="bg-gray-800 rounded-lg shadow-xl w-full max-w-md p-6 space-y-6">
+                <div className="flex items-center gap-2">
+                    <SparklesIcon className="w-6 h-6 text-blue-300" />
+                    <h1 className="text-xl font-bold">Tamur AI</h1>
+                </div>
+                <form onSubmit={handleSubmit} className="space-y-3">
+                    <label className="block text-sm font-medium text-gray-300">Gemini API Key</label>
+                    <input
+                        type="password"
+                        autoFocus
+                        value={apiKey}
+                        onChange={e => setApiKey(e.target.value)}
+                        className="w-full bg-gray-700 text-white p-2 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <p className="text-xs text-gray-400">
+                        Get a key from <a href="https://aistudio.google.com/apikey" target="_blank" rel="noopener noreferrer" className="text-blue-300 hover:underline">Google AI Studio</a>. It is stored only in this browser's local storage and sent straight to Google.
+                    </p>
+                    <button type="submit" disabled={!apiKey.trim()} className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-white font-semibold py-2 rounded-md">
+                        Continue
+                    </button>
+                </form>
+                <div className="border-t border-gray-700 pt-4 space-y-3">
+                    <p className="text-sm text-gray-300">Or keep the key on your machine: put <code>GEMINI_API_KEY</code> in <code>.env.local</code>, run <code>npm run proxy</code> and connect through it.</p>
+                    <input
+                        value={proxyUrl}
+                        onChange={e => setProxyUrl(e.target.value)}
+                        className="w-full bg-gray-700 text-white p-2 rounded-md"
+                    />
+                    <button
+                        onClick={() => onSave({ ...settings, geminiConnection: 'proxy', proxyUrl: proxyUrl.trim() || settings.proxyUrl })}
+                        className="w-full bg-gray-700 hover:bg-gray-600 py-2 rounded-md text-sm"
+                    >
+                        Use the local proxy
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ApiKeyScreen;
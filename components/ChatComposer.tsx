@@ -0,0 +1,342 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Media } from '../types';
+import { getSpeechCapabilities, transcribeAudio } from '../services/geminiService';
+import { classifyError } from '../services/aiErrors';
+import { fillTemplate, getTemplateVariables, PromptTemplate } from '../services/promptTemplates';
+import { matchSlashCommands, parseSlashCommand, SlashCommand, SlashCommandDefinition, validateSlashCommand } from '../services/slashCommands';
+import { fileToMedia, parseDataUrl, pcmToWavMedia } from '../utils/mediaHelpers';
+import { AudioCapture, CAPTURE_SAMPLE_RATE, startAudioCapture } from '../utils/audioCapture';
+import { DocumentIcon, MicIcon, PaperclipIcon, SendIcon, StopIcon, XIcon } from './icons';
+
+// Inline data sent with a single request is capped by the API, so keep the combined attachments below it.
+const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+const ACCEPTED_FILES = 'image/*,audio/*,application/pdf,text/*,.md,.csv,.json';
+// Dictation stops by itself after this long so a forgotten recording does not keep the microphone open.
+const MAX_DICTATION_MS = 2 * 60 * 1000;
+
+interface Dictation {
+  stream: MediaStream;
+  capture: AudioCapture;
+  chunks: Int16Array[];
+  timer: ReturnType<typeof setTimeout>;
+}
+
+type PaletteItem =
+  | { kind: 'command'; command: SlashCommandDefinition }
+  | { kind: 'template'; template: PromptTemplate };
+
+interface ChatComposerProps {
+  prompt: string;
+  onPromptChange: (prompt: string) => void;
+  attachments: Media[];
+  onAttachmentsChange: (attachments: Media[]) => void;
+  onSend: () => void;
+  // Conversation the prompt is written in; dictation usage is counted towards it.
+  conversationId?: string;
+  // Prompts starting with a known slash command are handed here instead of being sent.
+  onCommand: (command: SlashCommand) => void;
+  // Offered in the command palette; templates with variables ask for their values before insertion.
+  templates: PromptTemplate[];
+  // While a reply is streaming the send button turns into a stop button.
+  onStop?: () => void;
+  disabled?: boolean;
+}
+
+const ChatComposer: React.FC<ChatComposerProps> = ({ prompt, onPromptChange, attachments, onAttachmentsChange, onSend, conversationId, onCommand, templates, onStop, disabled }) => {
+    const [isDragging, setIsDragging] = useState(false);
+    const [error, setError] = useState('');
+    const [dictationState, setDictationState] = useState<'idle' | 'recording' | 'transcribing'>('idle');
+    const [highlightedIndex, setHighlightedIndex] = useState(0);
+    const [isPaletteDismissed, setIsPaletteDismissed] = useState(false);
+    const [pendingTemplate, setPendingTemplate] = useState<{ template: PromptTemplate; values: Record<string, string> } | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const dictationRef = useRef<Dictation | null>(null);
+    // The transcript is appended to whatever was typed while recording, which the timer callback cannot see otherwise.
+    const promptRef = useRef(prompt);
+    promptRef.current = prompt;
+
+    const releaseDictation = () => {
+        const dictation = dictationRef.current;
+        dictationRef.current = null;
+        if (dictation) {
+            clearTimeout(dictation.timer);
+            dictation.capture.stop();
+            dictation.stream.getTracks().forEach(track => track.stop());
+        }
+        return dictation;
+    };
+
+    useEffect(() => () => {
+        releaseDictation();
+    }, []);
+
+    const stopDictation = async () => {
+        const dictation = releaseDictation();
+        if (!dictation || dictation.chunks.length === 0) {
+            setDictationState('idle');
+            return;
+        }
+        setDictationState('transcribing');
+        try {
+            const recording = parseDataUrl(pcmToWavMedia(dictation.chunks, CAPTURE_SAMPLE_RATE, 'dictation.wav').url)!;
+            const text = await transcribeAudio(recording, conversationId);
+            if (text) {
+                const current = promptRef.current.trimEnd();
+                onPromptChange(current ? `${current} ${text}` : text);
+            }
+        } catch (e) {
+            console.error("Error transcribing dictation:", e);
+            setError(classifyError(e).message);
+        } finally {
+            setDictationState('idle');
+        }
+    };
+
+    const startDictation = async () => {
+        setError('');
+        let stream: MediaStream | null = null;
+        try {
+            stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+            const chunks: Int16Array[] = [];
+            const capture = await startAudioCapture(stream, { onChunk: pcm => chunks.push(pcm) });
+            dictationRef.current = { stream, capture, chunks, timer: setTimeout(stopDictation, MAX_DICTATION_MS) };
+            setDictationState('recording');
+        } catch (e) {
+            console.error("Error starting dictation:", e);
+            stream?.getTracks().forEach(track => track.stop());
+            setError('Could not access the microphone.');
+        }
+    };
+
+    const addFiles = async (files: File[]) => {
+        if (files.length === 0) return;
+        setError('');
+        const currentBytes = attachments.reduce((total, media) => total + (media.base64Data?.length ?? 0) * 0.75, 0);
+        const newBytes = files.reduce((total, file) => total + file.size, 0);
+        if (currentBytes + newBytes > MAX_ATTACHMENT_BYTES) {
+            setError('Attachments are limited to 20 MB per message.');
+            return;
+        }
+        try {
+            const media = await Promise.all(files.map(fileToMedia));
+            onAttachmentsChange([...attachments, ...media]);
+        } catch (e) {
+            console.error(e);
+            setError(e instanceof Error ? e.message : 'Failed to attach file.');
+        }
+    };
+
+    const removeAttachment = (index: number) => {
+        onAttachmentsChange(attachments.filter((_, i) => i !== index));
+    };
+
+    const canSend = !disabled && (prompt.trim().length > 0 || attachments.length > 0);
+
+    // The palette is open while a single-line prompt starts with a slash.
+    const query = prompt.startsWith('/') && !prompt.includes('\n') ? prompt.slice(1).toLowerCase() : null;
+    const paletteItems: PaletteItem[] = query === null || isPaletteDismissed ? [] : [
+        ...matchSlashCommands(prompt).map(command => ({ kind: 'command' as const, command })),
+        ...templates.filter(template => template.name.toLowerCase().startsWith(query)).map(template => ({ kind: 'template' as const, template })),
+    ];
+    const highlighted = Math.min(highlightedIndex, paletteItems.length - 1);
+
+    const handlePromptChange = (value: string) => {
+        onPromptChange(value);
+        setHighlightedIndex(0);
+        setIsPaletteDismissed(false);
+    };
+
+    const insertTemplate = (template: PromptTemplate) => {
+        if (getTemplateVariables(template.text).length === 0) {
+            handlePromptChange(template.text);
+        } else {
+            setPendingTemplate({ template, values: {} });
+        }
+    };
+
+    const applyPendingTemplate = () => {
+        if (!pendingTemplate) return;
+        handlePromptChange(fillTemplate(pendingTemplate.template.text, pendingTemplate.values));
+        setPendingTemplate(null);
+    };
+
+    const pickPaletteItem = (item: PaletteItem) => {
+        if (item.kind === 'template') {
+            insertTemplate(item.template);
+        } else {
+            handlePromptChange(`/${item.command.name}${item.command.usage ? ' ' : ''}`);
+        }
+    };
+
+    const submit = () => {
+        const command = parseSlashCommand(prompt);
+        if (!command) {
+            onSend();
+            return;
+        }
+        const problem = validateSlashCommand(command);
+        if (problem) {
+            setError(problem);
+            return;
+        }
+        setError('');
+        onCommand(command);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if (paletteItems.length > 0) {
+            if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                e.preventDefault();
+                const step = e.key === 'ArrowDown' ? 1 : -1;
+                setHighlightedIndex((highlighted + step + paletteItems.length) % paletteItems.length);
+                return;
+            }
+            if (e.key === 'Escape') {
+                setIsPaletteDismissed(true);
+                return;
+            }
+            const item = paletteItems[highlighted];
+            // Enter on a command that is already typed out in full runs it instead of completing it again.
+            const isComplete = item.kind === 'command' && prompt.trim().toLowerCase() === `/${item.command.name}`;
+            if (e.key === 'Tab' || (e.key === 'Enter' && !e.shiftKey && !isComplete)) {
+                e.preventDefault();
+                pickPaletteItem(item);
+                return;
+            }
+        }
+        if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            if (canSend) submit();
+        }
+    };
+
+    return (
+        <div
+            className="p-4 border-t border-gray-700"
+            onDragOver={e => { e.preventDefault(); setIsDragging(true); }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={e => {
+                e.preventDefault();
+                setIsDragging(false);
+                if (!disabled) addFiles(Array.from(e.dataTransfer.files));
+            }}
+        >
+            {attachments.length > 0 && (
+                <div className="flex flex-wrap gap-2 mb-2">
+                    {attachments.map((media, index) => (
+                        <div key={index} className="relative bg-gray-800 rounded-md p-1 flex items-center gap-2 max-w-xs">
+                            {media.type === 'image'
+                                ? <img src={media.url} alt={media.name} className="w-12 h-12 object-cover rounded" />
+                                : <DocumentIcon className="w-8 h-8 text-gray-400" />}
+                            <span className="text-xs text-gray-300 truncate pr-5">{media.name}</span>
+                            <button onClick={() => removeAttachment(index)} className="absolute top-0 right-0 p-0.5 text-gray-400 hover:text-white" title="Remove attachment">
+                                <XIcon className="w-4 h-4" />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+            {error && <p className="text-red-400 text-sm mb-2">{error}</p>}
+            {pendingTemplate && (
+                <div className="mb-2 bg-gray-800 rounded-lg p-3 space-y-2 text-sm">
+                    <p className="text-gray-300">Fill in the template <span className="font-medium">/{pendingTemplate.template.name}</span></p>
+                    {getTemplateVariables(pendingTemplate.template.text).map((variable, index) => (
+                        <input
+                            key={variable}
+                            autoFocus={index === 0}
+                            placeholder={variable}
+                            value={pendingTemplate.values[variable] ?? ''}
+                            onChange={e => setPendingTemplate(prev => prev && { ...prev, values: { ...prev.values, [variable]: e.target.value } })}
+                            onKeyDown={e => { if (e.key === 'Enter') { e.preventDefault(); applyPendingTemplate(); } }}
+                            className="w-full bg-gray-700 text-white p-2 rounded-md"
+                        />
+                    ))}
+                    <div className="flex justify-end gap-2">
+                        <button onClick={() => setPendingTemplate(null)} className="px-3 py-1 rounded-md bg-gray-700 hover:bg-gray-600">Cancel</button>
+                        <button onClick={applyPendingTemplate} className="px-3 py-1 rounded-md bg-blue-600 hover:bg-blue-700 font-semibold">Insert</button>
+                    </div>
+                </div>
+            )}
+            <div className={`relative bg-gray-800 rounded-lg flex items-center p-2 ${isDragging ? 'ring-2 ring-blue-500' : ''}`}>
+                {paletteItems.length > 0 && (
+                    <ul className="absolute bottom-full left-0 mb-2 w-full max-h-64 overflow-y-auto bg-gray-800 border border-gray-700 rounded-lg shadow-xl text-sm z-10">
+                        {paletteItems.map((item, index) => (
+                            <li key={item.kind === 'command' ? item.command.name : item.template.id}>
+                                <button
+                                    onMouseDown={e => { e.preventDefault(); pickPaletteItem(item); }}
+                                    onMouseEnter={() => setHighlightedIndex(index)}
+                                    className={`w-full text-left px-3 py-2 ${index === highlighted ? 'bg-gray-700' : ''}`}
+                                >
+                                    {item.kind === 'command' ? (
+                                        <>
+                                            <span className="font-medium text-gray-100">/{item.command.name}</span>
+                                            {item.command.usage && <span className="text-gray-400"> {item.command.usage}</span>}
+                                            <span className="block text-xs text-gray-400">{item.command.description}</span>
+                                        </>
+                                    ) : (
+                                        <>
+                                            <span className="font-medium text-gray-100">/{item.template.name}</span>
+                                            <span className="ml-2 px-1.5 py-0.5 rounded bg-gray-600 text-xs text-gray-300">Template</span>
+                                            <span className="block text-xs text-gray-400 truncate">{item.template.text}</span>
+                                        </>
+                                    )}
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+                <button onClick={() => fileInputRef.current?.click()} disabled={disabled} className="p-2 text-gray-400 hover:text-white disabled:cursor-not-allowed" title="Attach files">
+                    <PaperclipIcon className="w-5 h-5" />
+                </button>
+                {getSpeechCapabilities().transcription && (
+                    <button
+                        onClick={dictationState === 'recording' ? stopDictation : startDictation}
+                        disabled={dictationState === 'transcribing' || (disabled && dictationState === 'idle')}
+                        className={`p-2 rounded-full disabled:cursor-not-allowed ${dictationState === 'recording' ? 'bg-red-600 text-white animate-pulse' : 'text-gray-400 hover:text-white'} ${dictationState === 'transcribing' ? 'animate-pulse' : ''}`}
+                        title={dictationState === 'recording' ? 'Stop and transcribe' : dictationState === 'transcribing' ? 'Transcribing...' : 'Dictate'}
+                    >
+                        <MicIcon className="w-5 h-5" />
+                    </button>
+                )}
+                <input
+                    type="file"
+                    multiple
+                    accept={ACCEPTED_FILES}
+                    ref={fileInputRef}
+                    onChange={e => {
+                        addFiles(Array.from(e.target.files ?? []));
+                        e.target.value = '';
+                    }}
+                    className="hidden"
+                />
+                <textarea
+                    value={prompt}
+                    onChange={e => handlePromptChange(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    onPaste={e => {
+                        const files = Array.from<File>(e.clipboardData.files);
+                        if (files.length > 0) {
+                            e.preventDefault();
+                            addFiles(files);
+                        }
+                    }}
+                    placeholder={isDragging ? 'Drop files to attach...' : 'Ask Tamur AI anything, or type / for commands...'}
+                    className="flex-1 bg-transparent focus:outline-none resize-none max-h-32"
+                    rows={1}
+                    disabled={disabled}
+                />
+                {disabled && onStop ? (
+                    <button onClick={onStop} className="p-2 rounded-full bg-red-600 hover:bg-red-700 transition-colors" title="Stop generating">
+                        <StopIcon className="w-5 h-5 text-white" />
+                    </button>
+                ) : (
+                    <button onClick={submit} disabled={!canSend} className="p-2 rounded-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 transition-colors">
+                        <SendIcon className="w-5 h-5 text-white" />
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default ChatComposer;
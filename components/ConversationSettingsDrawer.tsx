@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { ConversationSettings } from '../types';
+import { ChatPreset, deletePreset, listPresets, savePreset } from '../services/chatPresets';
+import { TrashIcon, XIcon } from './icons';
+
+interface ConversationSettingsDrawerProps {
+  settings: ConversationSettings;
+  // Suggestions for the model field; the first one is the provider's default.
+  models: string[];
+  // Voices for reading replies aloud; the first one is the provider's default. Empty hides the choice.
+  voices: string[];
+  // Search grounding is replaced by function calling while tools are on.
+  toolUseEnabled: boolean;
+  onSave: (settings: ConversationSettings) => void;
+  onClose: () => void;
+}
+
+type NumericField = 'temperature' | 'topP' | 'maxOutputTokens' | 'thinkingBudget';
+
+const NUMERIC_FIELDS: [NumericField, string, { min: number; max?: number; step: number }, string][] = [
+  ['temperature', 'Temperature', { min: 0, max: 2, step: 0.1 }, 'Higher is more creative, lower is more focused.'],
+  ['topP', 'Top P', { min: 0, max: 1, step: 0.05 }, 'Only sample from the most likely tokens making up this probability.'],
+  ['maxOutputTokens', 'Max output tokens', { min: 1, step: 1 }, 'Longer replies are cut off at this length.'],
+  ['thinkingBudget', 'Thinking budget', { min: -1, step: 128 }, 'Gemini only. 0 turns thinking off, -1 lets the model decide.'],
+];
+
+const ConversationSettingsDrawer: React.FC<ConversationSettingsDrawerProps> = ({ settings, models, voices, toolUseEnabled, onSave, onClose }) => {
+    const [draft, setDraft] = useState<ConversationSettings>(settings);
+    const [presets, setPresets] = useState<ChatPreset[]>(listPresets);
+
+    const updateNumber = (field: NumericField) => (e: React.ChangeEvent<HTMLInputElement>) => {
+        const value = e.target.value;
+        setDraft(prev => ({ ...prev, [field]: value === '' ? undefined : Number(value) }));
+    };
+
+    const handleSavePreset = () => {
+        const name = window.prompt('Name for this preset');
+        if (!name?.trim()) return;
+        const preset = savePreset(name.trim(), draft);
+        setPresets(prev => [...prev, preset]);
+    };
+
+    const handleDeletePreset = (preset: ChatPreset) => {
+        if (!window.confirm(`Delete the preset "${preset.name}"?`)) return;
+        deletePreset(preset.id);
+        setPresets(prev => prev.filter(p => p.id !== preset.id));
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/40 z-40 flex justify-end" onClick={onClose}>
+            <aside className="w-full max-w-sm h-full bg-gray-800 border-l border-gray-700 shadow-xl flex flex-col" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center justify-between p-4 border-b border-gray-700">
+                    <h2 className="text-lg font-semibold text-blue-300">Conversation settings</h2>
+                    <button onClick={onClose} className="text-gray-400 hover:text-white" title="Close">
+                        <XIcon className="w-5 h-5" />
+                    </button>
+                </div>
+                <div className="flex-1 overflow-y-auto p-4 space-y-4 text-sm">
+                    <div>
+                        <p className="font-medium text-gray-300 mb-2">Presets</p>
+                        <div className="flex flex-wrap gap-2">
+                            {presets.map(preset => (
+                                <span key={preset.id} className="flex items-center bg-gray-700 rounded-full">
+                                    <button onClick={() => setDraft({ ...preset.settings, model: preset.settings.model || draft.model })} className="px-3 py-1 hover:text-blue-300">
+                                        {preset.name}
+                                    </button>
+                                    {!preset.builtIn && (
+                                        <button onClick={() => handleDeletePreset(preset)} className="pr-2 text-gray-400 hover:text-red-400" title="Delete preset">
+                                            <TrashIcon className="w-3 h-3" />
+                                        </button>
+                                    )}
+                                </span>
+                            ))}
+                        </div>
+                    </div>
+                    <div>
+                        <label htmlFor="conversation-model" className="block font-medium text-gray-300 mb-1">Model</label>
+                        <input
+                            id="conversation-model"
+                            list="conversation-models"
+                            className="w-full bg-gray-700 text-white p-2 rounded-md"
+                            placeholder={`Default (${models[0]})`}
+                            value={draft.model}
+                            onChange={e => setDraft(prev => ({ ...prev, model: e.target.value.trim() }))}
+                        />
+                        <datalist id="conversation-models">
+                            {models.map(model => <option key={model} value={model} />)}
+                        </datalist>
+                    </div>
+                    <div>
+                        <label htmlFor="conversation-system-prompt" className="block font-medium text-gray-300 mb-1">System prompt</label>
+                        <textarea
+                            id="conversation-system-prompt"
+                            className="w-full bg-gray-700 text-white p-2 rounded-md resize-none"
+                            rows={5}
+                            placeholder="Instructions the model follows for the whole conversation"
+                            value={draft.systemPrompt}
+                            onChange={e => setDraft(prev => ({ ...prev, systemPrompt: e.target.value }))}
+                        />
+                    </div>
+                    {voices.length > 0 && (
+                        <div>
+                            <label htmlFor="conversation-speech-voice" className="block font-medium text-gray-300 mb-1">Read-aloud voice</label>
+                            <select
+                                id="conversation-speech-voice"
+                                className="w-full bg-gray-700 text-white p-2 rounded-md"
+                                value={draft.speechVoice ?? ''}
+                                onChange={e => setDraft(prev => ({ ...prev, speechVoice: e.target.value || undefined }))}
+                            >
+                                <option value="">Default ({voices[0]})</option>
+                                {voices.map(voice => <option key={voice} value={voice}>{voice}</option>)}
+                            </select>
+                        </div>
+                    )}
+                    {NUMERIC_FIELDS.map(([field, label, range, hint]) => (
+                        <div key={field}>
+                            <label htmlFor={`conversation-${field}`} className="block font-medium text-gray-300 mb-1">{label}</label>
+                            <input
+                                id={`conversation-${field}`}
+                                type="number"
+                                {...range}
+                                className="w-full bg-gray-700 text-white p-2 rounded-md"
+                                placeholder="Model default"
+                                value={draft[field] ?? ''}
+                                onChange={updateNumber(field)}
+                            />
+                            <p className="text-xs text-gray-400 mt-1">{hint}</p>
+                        </div>
+                    ))}
+                    <label className="flex items-start gap-2 text-gray-300">
+                        <input type="checkbox" className="mt-1" checked={draft.searchEnabled} onChange={e => setDraft(prev => ({ ...prev, searchEnabled: e.target.checked }))} />
+                        <span>
+                            Ground replies with Google Search
+                            {toolUseEnabled && <span className="block text-xs text-yellow-300">Not used while tools are on.</span>}
+                        </span>
+                    </label>
+                </div>
+                <div className="flex justify-between gap-2 p-4 border-t border-gray-700">
+                    <button onClick={handleSavePreset} className="px-3 py-2 rounded-md bg-gray-700 hover:bg-gray-600">Save as preset</button>
+                    <div className="flex gap-2">
+                        <button onClick={onClose} className="px-4 py-2 rounded-md bg-gray-700 hover:bg-gray-600">Cancel</button>
+                        <button onClick={() => onSave(draft)} className="px-4 py-2 rounded-md bg-blue-600 hover:bg-blue-700 font-semibold">Apply</button>
+                    </div>
+                </div>
+            </aside>
+        </div>
+    );
+};
+
+export default ConversationSettingsDrawer;
@@ -0,0 +1,146 @@
+import React, { useRef, useState } from 'react';
+import { Conversation } from '../types';
+import type { ExportFormat } from '../services/conversationExport';
+import { PlusIcon, PencilIcon, TrashIcon, DownloadIcon, UploadIcon } from './icons';
+
+const EXPORT_OPTIONS: [ExportFormat, string][] = [
+  ['markdown', 'Markdown'],
+  ['html', 'HTML (with media)'],
+  ['json', 'JSON (re-importable)'],
+];
+
+interface ConversationSidebarProps {
+  conversations: Conversation[];
+  activeConversationId: string | null;
+  disabled?: boolean;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  onExport: (id: string, format: ExportFormat) => void;
+  onImport: (file: File) => void;
+}
+
+const ConversationSidebar: React.FC<ConversationSidebarProps> = ({ conversations, activeConversationId, disabled, onSelect, onNew, onRename, onDelete, onExport, onImport }) => {
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draftTitle, setDraftTitle] = useState('');
+    const [exportMenuId, setExportMenuId] = useState<string | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    const startRename = (conversation: Conversation) => {
+        setEditingId(conversation.id);
+        setDraftTitle(conversation.title);
+    };
+
+    const commitRename = () => {
+        if (editingId && draftTitle.trim()) {
+            onRename(editingId, draftTitle.trim());
+        }
+        setEditingId(null);
+    };
+
+    const handleDelete = (conversation: Conversation) => {
+        if (window.confirm(`Delete "${conversation.title}"? This cannot be undone.`)) {
+            onDelete(conversation.id);
+        }
+    };
+
+    return (
+        <nav className="w-64 bg-gray-800 border-r border-gray-700 flex-col hidden md:flex">
+            <div className="p-3 border-b border-gray-700 flex gap-2">
+                <button
+                    onClick={onNew}
+                    disabled={disabled}
+                    className="flex-1 flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-white text-sm font-semibold py-2 px-3 rounded-md transition-colors"
+                >
+                    <PlusIcon className="w-4 h-4" />
+                    New chat
+                </button>
+                <button
+                    onClick={() => importInputRef.current?.click()}
+                    disabled={disabled}
+                    className="p-2 bg-gray-700 hover:bg-gray-600 disabled:cursor-not-allowed rounded-md"
+                    title="Import conversation (JSON)"
+                >
+                    <UploadIcon className="w-4 h-4" />
+                </button>
+                <input
+                    type="file"
+                    accept="application/json,.json"
+                    ref={importInputRef}
+                    onChange={e => {
+                        const file = e.target.files?.[0];
+                        if (file) onImport(file);
+                        e.target.value = '';
+                    }}
+                    className="hidden"
+                />
+            </div>
+            <div className="flex-1 overflow-y-auto p-2 space-y-1">
+                {conversations.map(conversation => {
+                    const isActive = conversation.id === activeConversationId;
+                    if (conversation.id === editingId) {
+                        return (
+                            <input
+                                key={conversation.id}
+                                autoFocus
+                                value={draftTitle}
+                                onChange={e => setDraftTitle(e.target.value)}
+                                onBlur={commitRename}
+                                onKeyDown={e => {
+                                    if (e.key === 'Enter') commitRename();
+                                    if (e.key === 'Escape') setEditingId(null);
+                                }}
+                                className="w-full bg-gray-700 text-white text-sm p-2 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                        );
+                    }
+                    return (
+                        <div
+                            key={conversation.id}
+                            className={`group relative flex items-center rounded-md ${isActive ? 'bg-gray-700' : 'hover:bg-gray-700/60'}`}
+                        >
+                            <button
+                                onClick={() => onSelect(conversation.id)}
+                                disabled={disabled}
+                                className="flex-1 min-w-0 text-left text-sm p-2 truncate disabled:cursor-not-allowed"
+                                title={conversation.title}
+                            >
+                                {conversation.title}
+                            </button>
+                            <div className={`flex-shrink-0 items-center pr-1 ${isActive ? 'flex' : 'hidden group-hover:flex'}`}>
+                                <button onClick={() => setExportMenuId(exportMenuId === conversation.id ? null : conversation.id)} className="p-1 text-gray-400 hover:text-white" title="Export">
+                                    <DownloadIcon className="w-4 h-4" />
+                                </button>
+                                <button onClick={() => startRename(conversation)} className="p-1 text-gray-400 hover:text-white" title="Rename">
+                                    <PencilIcon className="w-4 h-4" />
+                                </button>
+                                <button onClick={() => handleDelete(conversation)} disabled={disabled} className="p-1 text-gray-400 hover:text-red-400 disabled:cursor-not-allowed" title="Delete">
+                                    <TrashIcon className="w-4 h-4" />
+                                </button>
+                            </div>
+                            {exportMenuId === conversation.id && (
+                                <div className="absolute right-0 top-full mt-1 w-48 bg-gray-900 border border-gray-600 rounded-md shadow-lg z-20 py-1">
+                                    {EXPORT_OPTIONS.map(([format, label]) => (
+                                        <button
+                                            key={format}
+                                            onClick={() => {
+                                                setExportMenuId(null);
+                                                onExport(conversation.id, format);
+                                            }}
+                                            className="block w-full text-left text-sm px-3 py-1.5 hover:bg-gray-700"
+                                        >
+                                            {label}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </nav>
+    );
+};
+
+export default ConversationSidebar;
@@ -1,62 +1,178 @@
 
-import React, { useState, useRef, useCallback } from 'react';
-import { generateImage, editImage, generateVideo, checkVideoStatus } from '../services/geminiService';
-import { fileToBase64 } from '../utils/mediaHelpers';
-import type { Operation, GenerateVideosResponse } from '@google/genai';
+import React, { useState, useRef, useCallback, useEffect } from 'react';
+import { generateImage, editImage, getActiveProvider, getImageCapabilities, getVideoCapabilities } from '../services/geminiService';
+import { addToLibrary } from '../services/mediaLibrary';
+import { classifyError } from '../services/aiErrors';
+import { fileToBase64, mediaToDataUrl, parseDataUrl } from '../utils/mediaHelpers';
+import type { ImageGenerationOptions, InlineData, VideoAspectRatio, VideoGenerationOptions, VideoResolution } from '../services/providers/types';
+import { Media } from '../types';
+import MaskCanvas, { MaskCanvasHandle } from './MaskCanvas';
+import { CheckIcon, RedoIcon, UndoIcon, XIcon } from './icons';
+
+export interface GalleryImage {
+  url: string;
+  prompt: string;
+}
 
 interface ImageGeneratorPanelProps {
-  onGenerationComplete: (url: string, prompt: string) => void;
+  // Generated images are saved to the media library under this conversation.
+  conversationId: string | null;
+  onGenerationComplete: (images: GalleryImage[]) => void;
 }
 
-export const ImageGeneratorPanel: React.FC<ImageGeneratorPanelProps> = ({ onGenerationComplete }) => {
+const MIME_TYPE_LABELS: Record<string, string> = {
+  'image/jpeg': 'JPEG',
+  'image/png': 'PNG',
+  'image/webp': 'WebP',
+};
+
+export const ImageGeneratorPanel: React.FC<ImageGeneratorPanelProps> = ({ conversationId, onGenerationComplete }) => {
+  const capabilities = getImageCapabilities();
   const [prompt, setPrompt] = useState('');
   const [aspectRatio, setAspectRatio] = useState('1:1');
+  const [numberOfImages, setNumberOfImages] = useState(1);
+  const [outputMimeType, setOutputMimeType] = useState(capabilities.outputMimeTypes[0]);
+  const [negativePrompt, setNegativePrompt] = useState('');
+  const [seed, setSeed] = useState('');
+  const [gallery, setGallery] = useState<GalleryImage[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [lastRequest, setLastRequest] = useState<{ prompt: string; options: ImageGenerationOptions } | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
 
-  const handleGenerate = async () => {
-    if (!prompt) {
-      setError('Please enter a prompt.');
-      return;
-    }
+  const runGeneration = async (requestPrompt: string, options: ImageGenerationOptions) => {
     setIsLoading(true);
     setError('');
     try {
-      const imageUrl = await generateImage(prompt, aspectRatio);
-      onGenerationComplete(imageUrl, prompt);
+      const imageUrls = await generateImage(requestPrompt, options, conversationId ?? undefined);
+      imageUrls.forEach(url => addToLibrary(url, { source: 'generated', prompt: requestPrompt, model: getActiveProvider().imageModel, aspectRatio: options.aspectRatio, conversationId: conversationId ?? undefined }));
+      setLastRequest({ prompt: requestPrompt, options });
+      setGallery(prev => [...imageUrls.map(url => ({ url, prompt: requestPrompt })), ...prev]);
+      setSelected(prev => new Set([...prev, ...imageUrls]));
     } catch (e) {
       console.error(e);
-      setError('Failed to generate image. Please check the console for details.');
+      setError(classifyError(e).message);
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleGenerate = () => {
+    if (!prompt) {
+      setError('Please enter a prompt.');
+      return;
+    }
+    const parsedSeed = parseInt(seed, 10);
+    runGeneration(prompt, {
+      aspectRatio,
+      numberOfImages,
+      outputMimeType,
+      negativePrompt: capabilities.negativePrompt && negativePrompt.trim() ? negativePrompt.trim() : undefined,
+      seed: capabilities.seed && !Number.isNaN(parsedSeed) ? parsedSeed : undefined,
+    });
+  };
+
+  const toggleSelected = (url: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(url)) {
+        next.delete(url);
+      } else {
+        next.add(url);
+      }
+      return next;
+    });
+  };
+
+  const handlePostSelected = () => {
+    const chosen = gallery.filter(image => selected.has(image.url));
+    if (chosen.length > 0) {
+      onGenerationComplete(chosen);
+    }
+  };
+
   return (
-    <div className="p-4 bg-gray-800 rounded-lg shadow-inner h-full flex flex-col">
+    <div className="p-4 bg-gray-800 rounded-lg shadow-inner h-full flex flex-col overflow-y-auto">
       <h3 className="text-lg font-semibold mb-4 text-cyan-400">Generate Image with Imagen 4</h3>
       <textarea
-        className="w-full bg-gray-700 text-white p-2 rounded-md mb-4 flex-grow resize-none"
+        className="w-full bg-gray-700 text-white p-2 rounded-md mb-4 min-h-[6rem] resize-none"
         placeholder="e.g., A robot holding a red skateboard."
         value={prompt}
         onChange={(e) => setPrompt(e.target.value)}
         disabled={isLoading}
       />
-      <div className="mb-4">
-        <label className="block text-sm font-medium text-gray-300 mb-2">Aspect Ratio</label>
-        <select
-          className="w-full bg-gray-700 text-white p-2 rounded-md"
-          value={aspectRatio}
-          onChange={(e) => setAspectRatio(e.target.value)}
-          disabled={isLoading}
-        >
-          <option value="1:1">1:1 (Square)</option>
-          <option value="16:9">16:9 (Landscape)</option>
-          <option value="9:16">9:16 (Portrait)</option>
-          <option value="4:3">4:3</option>
-          <option value="3:4">3:4</option>
-        </select>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Aspect Ratio</label>
+          <select
+            className="w-full bg-gray-700 text-white p-2 rounded-md"
+            value={aspectRatio}
+            onChange={(e) => setAspectRatio(e.target.value)}
+            disabled={isLoading}
+          >
+            <option value="1:1">1:1 (Square)</option>
+            <option value="16:9">16:9 (Landscape)</option>
+            <option value="9:16">9:16 (Portrait)</option>
+            <option value="4:3">4:3</option>
+            <option value="3:4">3:4</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Images</label>
+          <select
+            className="w-full bg-gray-700 text-white p-2 rounded-md"
+            value={numberOfImages}
+            onChange={(e) => setNumberOfImages(Number(e.target.value))}
+            disabled={isLoading}
+          >
+            {Array.from({ length: capabilities.maxImages }, (_, i) => i + 1).map(count => (
+              <option key={count} value={count}>{count}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">Format</label>
+          <select
+            className="w-full bg-gray-700 text-white p-2 rounded-md"
+            value={outputMimeType}
+            onChange={(e) => setOutputMimeType(e.target.value)}
+            disabled={isLoading}
+          >
+            {capabilities.outputMimeTypes.map(mimeType => (
+              <option key={mimeType} value={mimeType}>{MIME_TYPE_LABELS[mimeType] ?? mimeType}</option>
+            ))}
+          </select>
+        </div>
       </div>
+      {(capabilities.negativePrompt || capabilities.seed) && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-4">
+          {capabilities.negativePrompt && (
+            <div className="sm:col-span-2">
+              <label className="block text-sm font-medium text-gray-300 mb-2">Negative Prompt</label>
+              <input
+                className="w-full bg-gray-700 text-white p-2 rounded-md"
+                placeholder="e.g., blurry, text, watermark"
+                value={negativePrompt}
+                onChange={(e) => setNegativePrompt(e.target.value)}
+                disabled={isLoading}
+              />
+            </div>
+          )}
+          {capabilities.seed && (
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Seed</label>
+              <input
+                type="number"
+                className="w-full bg-gray-700 text-white p-2 rounded-md"
+                placeholder="Random"
+                value={seed}
+                onChange={(e) => setSeed(e.target.value)}
+                disabled={isLoading}
+              />
+            </div>
+          )}
+        </div>
+      )}
       {error && <p className="text-red-400 text-sm mb-4">{error}</p>}
       <button
         onClick={handleGenerate}
@@ -65,93 +181,286 @@ export const ImageGeneratorPanel: React.FC<ImageGeneratorPanelProps> = ({ onGene
       >
         {isLoading ? 'Generating...' : 'Generate'}
       </button>
+      {gallery.length > 0 && (
+        <div className="mt-6">
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-sm text-gray-300">{selected.size} of {gallery.length} selected</p>
+            <div className="flex gap-2">
+              <button
+                onClick={() => lastRequest && runGeneration(lastRequest.prompt, lastRequest.options)}
+                disabled={isLoading || !lastRequest}
+                className="px-3 py-1 rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-sm"
+              >
+                More like this
+              </button>
+              <button
+                onClick={() => { setGallery([]); setSelected(new Set()); }}
+                disabled={isLoading}
+                className="px-3 py-1 rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-sm"
+              >
+                Clear
+              </button>
+              <button
+                onClick={handlePostSelected}
+                disabled={selected.size === 0}
+                className="px-3 py-1 rounded-md bg-cyan-600 hover:bg-cyan-700 disabled:bg-gray-500 text-sm font-semibold"
+              >
+                Post to chat
+              </button>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {gallery.map(image => (
+              <button
+                key={image.url}
+                onClick={() => toggleSelected(image.url)}
+                className={`relative rounded-md overflow-hidden border-2 ${selected.has(image.url) ? 'border-cyan-400' : 'border-transparent opacity-70 hover:opacity-100'}`}
+                title={image.prompt}
+              >
+                <img src={image.url} alt={image.prompt} className="w-full h-full object-cover" />
+                {selected.has(image.url) && (
+                  <span className="absolute top-1 right-1 bg-cyan-500 rounded-full p-0.5">
+                    <CheckIcon className="w-4 h-4 text-white" />
+                  </span>
+                )}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 };
 
 
 interface ImageEditorPanelProps {
+  conversationId: string | null;
+  // Images already in the conversation that can be picked as the edit source.
+  chatImages: Media[];
+  // Starts a new edit from this image whenever it changes, e.g. when an asset is reused from the media library.
+  initialImageUrl?: string;
   onEditComplete: (url: string, originalUrl: string, prompt: string) => void;
 }
 
-export const ImageEditorPanel: React.FC<ImageEditorPanelProps> = ({ onEditComplete }) => {
+interface EditVersion {
+  url: string;
+  // The instruction that produced this version; absent for the source image.
+  prompt?: string;
+}
+
+export const ImageEditorPanel: React.FC<ImageEditorPanelProps> = ({ conversationId, chatImages, initialImageUrl, onEditComplete }) => {
     const [prompt, setPrompt] = useState('');
-    const [imageFile, setImageFile] = useState<File | null>(null);
-    const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+    // Each edit is applied to the current version, so edits can be chained and stepped back and forth.
+    const [versions, setVersions] = useState<EditVersion[]>([]);
+    const [versionIndex, setVersionIndex] = useState(0);
+    const [isPickerOpen, setIsPickerOpen] = useState(false);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState('');
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const maskRef = useRef<MaskCanvasHandle>(null);
 
-    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const current = versions[versionIndex];
+
+    const startFrom = (url: string) => {
+        setVersions([{ url }]);
+        setVersionIndex(0);
+        setError('');
+    };
+
+    useEffect(() => {
+        if (initialImageUrl) startFrom(initialImageUrl);
+    }, [initialImageUrl]);
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
+        e.target.value = '';
         if (file) {
-            setImageFile(file);
-            setPreviewUrl(URL.createObjectURL(file));
+            addToLibrary(file, { source: 'uploaded', name: file.name, conversationId: conversationId ?? undefined });
+            startFrom(`data:${file.type};base64,${await fileToBase64(file)}`);
+        }
+    };
+
+    const handlePickChatImage = async (media: Media) => {
+        setIsPickerOpen(false);
+        try {
+            startFrom(await mediaToDataUrl(media));
+        } catch (e) {
+            console.error(e);
+            setError('Could not load that image from the chat.');
         }
     };
 
     const handleEdit = async () => {
-        if (!prompt || !imageFile) {
+        const source = current && parseDataUrl(current.url);
+        if (!prompt || !source) {
             setError('Please provide an image and a prompt.');
             return;
         }
         setIsLoading(true);
         setError('');
         try {
-            const base64Data = await fileToBase64(imageFile);
-            const editedUrl = await editImage(prompt, { data: base64Data, mimeType: imageFile.type });
-            onEditComplete(editedUrl, previewUrl!, prompt);
+            const editedUrl = await editImage(prompt, source, maskRef.current?.getMask() ?? undefined, conversationId ?? undefined);
+            addToLibrary(editedUrl, { source: 'edited', prompt, model: getActiveProvider().imageEditModel, conversationId: conversationId ?? undefined });
+            // Editing after an undo discards the versions that were undone.
+            setVersions(prev => [...prev.slice(0, versionIndex + 1), { url: editedUrl, prompt }]);
+            setVersionIndex(versionIndex + 1);
+            setPrompt('');
         } catch (e) {
             console.error(e);
-            setError('Failed to edit image.');
+            setError(classifyError(e).message);
         } finally {
             setIsLoading(false);
         }
     };
 
+    const handlePost = () => {
+        const prompts = versions.slice(1, versionIndex + 1).map(version => version.prompt).join(' → ');
+        onEditComplete(current.url, versions[0].url, prompts);
+    };
+
     return (
-        <div className="p-4 bg-gray-800 rounded-lg shadow-inner h-full flex flex-col">
+        <div className="p-4 bg-gray-800 rounded-lg shadow-inner h-full flex flex-col overflow-y-auto">
             <h3 className="text-lg font-semibold mb-4 text-purple-400">Edit Image with Gemini</h3>
-             <div 
-                className="w-full h-48 bg-gray-700 rounded-md mb-4 flex items-center justify-center cursor-pointer border-2 border-dashed border-gray-600 hover:border-purple-400 transition-colors"
-                onClick={() => fileInputRef.current?.click()}
-            >
-                {previewUrl ? <img src={previewUrl} alt="Preview" className="max-h-full max-w-full object-contain" /> : <p className="text-gray-400">Click to upload image</p>}
+            <div className="flex gap-2 mb-4">
+                <button onClick={() => fileInputRef.current?.click()} disabled={isLoading} className="flex-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-sm py-2 px-3 rounded-md">
+                    Upload image
+                </button>
+                <button onClick={() => setIsPickerOpen(open => !open)} disabled={isLoading || chatImages.length === 0} className="flex-1 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-sm py-2 px-3 rounded-md">
+                    From chat
+                </button>
                 <input type="file" accept="image/*" ref={fileInputRef} onChange={handleFileChange} className="hidden" />
             </div>
+            {isPickerOpen && (
+                <div className="grid grid-cols-4 gap-2 mb-4 max-h-40 overflow-y-auto">
+                    {chatImages.map((media, index) => (
+                        <button key={`${media.url}-${index}`} onClick={() => handlePickChatImage(media)} className="aspect-square rounded-md overflow-hidden border-2 border-transparent hover:border-purple-400">
+                            <img src={media.url} alt={media.prompt ?? 'Chat image'} className="w-full h-full object-cover" />
+                        </button>
+                    ))}
+                </div>
+            )}
+            {current ? (
+                <div className="mb-4">
+                    <MaskCanvas ref={maskRef} imageUrl={current.url} disabled={isLoading} />
+                    <div className="flex items-center gap-2 mt-2 text-sm text-gray-300">
+                        <button onClick={() => setVersionIndex(versionIndex - 1)} disabled={isLoading || versionIndex === 0} className="p-1 rounded-md hover:bg-gray-700 disabled:opacity-40" title="Undo edit">
+                            <UndoIcon className="w-4 h-4" />
+                        </button>
+                        <button onClick={() => setVersionIndex(versionIndex + 1)} disabled={isLoading || versionIndex === versions.length - 1} className="p-1 rounded-md hover:bg-gray-700 disabled:opacity-40" title="Redo edit">
+                            <RedoIcon className="w-4 h-4" />
+                        </button>
+                        <span className="truncate">{current.prompt ? `Edit ${versionIndex}: ${current.prompt}` : 'Original'}</span>
+                    </div>
+                </div>
+            ) : (
+                <div className="w-full h-48 bg-gray-700 rounded-md mb-4 flex items-center justify-center border-2 border-dashed border-gray-600">
+                    <p className="text-gray-400">Upload an image or pick one from the chat</p>
+                </div>
+            )}
             <textarea
-                className="w-full bg-gray-700 text-white p-2 rounded-md mb-4 flex-grow resize-none"
+                className="w-full bg-gray-700 text-white p-2 rounded-md mb-4 min-h-[5rem] resize-none"
                 placeholder="e.g., Add a retro filter. Remove the person in the background."
                 value={prompt}
                 onChange={(e) => setPrompt(e.target.value)}
                 disabled={isLoading}
             />
             {error && <p className="text-red-400 text-sm mb-4">{error}</p>}
-            <button
-                onClick={handleEdit}
-                disabled={isLoading || !imageFile}
-                className="w-full bg-purple-600 hover:bg-purple-700 disabled:bg-gray-500 text-white font-bold py-2 px-4 rounded-md transition-colors"
-            >
-                {isLoading ? 'Editing...' : 'Apply Edit'}
-            </button>
+            <div className="flex gap-2">
+                <button
+                    onClick={handleEdit}
+                    disabled={isLoading || !current}
+                    className="flex-1 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-500 text-white font-bold py-2 px-4 rounded-md transition-colors"
+                >
+                    {isLoading ? 'Editing...' : 'Apply Edit'}
+                </button>
+                <button
+                    onClick={handlePost}
+                    disabled={isLoading || versionIndex === 0}
+                    className="bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white py-2 px-4 rounded-md transition-colors"
+                >
+                    Post to chat
+                </button>
+            </div>
         </div>
     );
 };
 
 
+export interface VideoGenerationRequest {
+  prompt: string;
+  options: VideoGenerationOptions;
+}
+
 interface VideoGeneratorPanelProps {
-  onGenerationComplete: (url: string, prompt: string, thumbUrl: string) => void;
+  // Used as the starting image whenever it changes, e.g. when an asset is reused from the media library.
+  initialImage?: File;
+  // A generated video from the chat to continue; replaces the image inputs while set.
+  extendVideo?: Media;
+  // Generation continues in the background; progress is reported in the chat.
+  onGenerate: (request: VideoGenerationRequest) => void;
 }
 
-export const VideoGeneratorPanel: React.FC<VideoGeneratorPanelProps> = ({ onGenerationComplete }) => {
+const toInlineData = async (file: File): Promise<InlineData> => ({ data: await fileToBase64(file), mimeType: file.type });
+
+// Click-to-upload image slot. The preview URL is released when the file changes or the slot unmounts.
+const ImageSlot: React.FC<{ label: string; file: File | null; onSelect: (file: File | null) => void; disabled?: boolean; className?: string }> = ({ label, file, onSelect, disabled, className = 'h-24' }) => {
+    const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        if (!file) {
+            setPreviewUrl(null);
+            return;
+        }
+        const url = URL.createObjectURL(file);
+        setPreviewUrl(url);
+        return () => URL.revokeObjectURL(url);
+    }, [file]);
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const selected = e.target.files?.[0];
+        e.target.value = '';
+        if (selected) {
+            addToLibrary(selected, { source: 'uploaded', name: selected.name });
+            onSelect(selected);
+        }
+    };
+
+    return (
+        <div
+            className={`relative w-full ${className} bg-gray-700 rounded-md flex items-center justify-center border-2 border-dashed border-gray-600 transition-colors ${disabled ? 'opacity-50' : 'cursor-pointer hover:border-green-400'}`}
+            onClick={() => !disabled && inputRef.current?.click()}
+        >
+            {previewUrl ? <img src={previewUrl} alt={label} className="max-h-full max-w-full object-contain" /> : <p className="text-gray-400 text-sm text-center px-2">{label}</p>}
+            {file && !disabled && (
+                <button
+                    onClick={e => { e.stopPropagation(); onSelect(null); }}
+                    className="absolute top-1 right-1 bg-gray-900/80 hover:bg-red-700 rounded-full p-1"
+                    title="Remove"
+                >
+                    <XIcon className="w-3 h-3" />
+                </button>
+            )}
+            <input type="file" accept="image/*" ref={inputRef} onChange={handleFileChange} className="hidden" />
+        </div>
+    );
+};
+
+export const VideoGeneratorPanel: React.FC<VideoGeneratorPanelProps> = ({ initialImage, extendVideo, onGenerate }) => {
+    const capabilities = getVideoCapabilities();
     const [prompt, setPrompt] = useState('');
+    const [negativePrompt, setNegativePrompt] = useState('');
     const [imageFile, setImageFile] = useState<File | null>(null);
-    const [previewUrl, setPreviewUrl] = useState<string | null>(null);
-    const [aspectRatio, setAspectRatio] = useState<'16:9' | '9:16'>('16:9');
+    const [lastFrameFile, setLastFrameFile] = useState<File | null>(null);
+    const [referenceFiles, setReferenceFiles] = useState<File[]>([]);
+    const [sourceVideo, setSourceVideo] = useState<Media | null>(null);
+    const [aspectRatio, setAspectRatio] = useState<VideoAspectRatio>('16:9');
+    const [model, setModel] = useState(capabilities.models[0]?.id ?? '');
+    const [resolution, setResolution] = useState<VideoResolution>('720p');
+    const [durationSeconds, setDurationSeconds] = useState(capabilities.durations[capabilities.durations.length - 1] ?? 8);
     const [isLoading, setIsLoading] = useState(false);
     const [loadingMessage, setLoadingMessage] = useState('');
     const [error, setError] = useState('');
-    const fileInputRef = useRef<HTMLInputElement>(null);
 
     const checkApiKey = useCallback(async () => {
         // @ts-ignore
@@ -161,98 +470,178 @@ export const VideoGeneratorPanel: React.FC<VideoGeneratorPanelProps> = ({ onGene
         }
     }, []);
 
-    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        const file = e.target.files?.[0];
-        if (file) {
-            setImageFile(file);
-            setPreviewUrl(URL.createObjectURL(file));
+    useEffect(() => {
+        if (initialImage) {
+            setImageFile(initialImage);
+            setSourceVideo(null);
         }
+    }, [initialImage]);
+
+    useEffect(() => {
+        if (extendVideo) setSourceVideo(extendVideo);
+    }, [extendVideo]);
+
+    const isExtending = !!sourceVideo?.sourceUri;
+    // 1080p and reference images are only rendered as the longest clip.
+    const requiresLongestClip = resolution === '1080p' || (!imageFile && referenceFiles.length > 0);
+    const longestDuration = capabilities.durations[capabilities.durations.length - 1];
+    const effectiveDuration = requiresLongestClip ? longestDuration : durationSeconds;
+
+    const handleReferenceSelect = (index: number) => (file: File | null) => {
+        setReferenceFiles(prev => file
+            ? [...prev.slice(0, index), file, ...prev.slice(index + 1)]
+            : prev.filter((_, i) => i !== index));
     };
 
     const handleGenerate = async () => {
-        if (!prompt || !imageFile) {
-            setError('Please provide an image and a prompt.');
+        if (!prompt.trim()) {
+            setError('Please describe the video.');
             return;
         }
-        
+
         setIsLoading(true);
         setError('');
         setLoadingMessage('Checking API key...');
-        
+
         try {
             await checkApiKey();
-            setLoadingMessage('Uploading image and starting generation...');
-            const base64Data = await fileToBase64(imageFile);
-            let operation = await generateVideo(prompt, { data: base64Data, mimeType: imageFile.type }, aspectRatio);
-
-            setLoadingMessage('Video generation in progress... this can take a few minutes. Checking status every 10 seconds.');
-            
-            while (!operation.done) {
-                await new Promise(resolve => setTimeout(resolve, 10000));
-                setLoadingMessage('Still processing... Please wait.');
-                operation = await checkVideoStatus(operation);
+            setLoadingMessage('Preparing images...');
+            const options: VideoGenerationOptions = {
+                model,
+                aspectRatio,
+                resolution: isExtending ? '720p' : resolution,
+                durationSeconds: effectiveDuration,
+                negativePrompt: negativePrompt.trim() || undefined,
+            };
+            if (isExtending) {
+                options.extendVideoUri = sourceVideo!.sourceUri;
+            } else if (imageFile) {
+                options.image = await toInlineData(imageFile);
+                if (lastFrameFile) options.lastFrame = await toInlineData(lastFrameFile);
+            } else if (referenceFiles.length > 0) {
+                options.referenceImages = await Promise.all(referenceFiles.map(toInlineData));
             }
-            
-            const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
-            if (downloadLink) {
-                 const videoUrl = `${downloadLink}&key=${process.env.API_KEY}`;
-                 onGenerationComplete(videoUrl, prompt, previewUrl!);
-            } else {
-                 throw new Error('Video generation finished but no URI was returned.');
-            }
-
+            onGenerate({ prompt, options });
         } catch (e: any) {
             console.error(e);
-            let errorMessage = 'Failed to generate video. Please check the console.';
-            if (e.message?.includes('Requested entity was not found')) {
-                errorMessage = 'API Key is invalid or not found. Please select a valid key and try again.';
-            }
-            setError(errorMessage);
+            setError('Failed to start video generation. Please check the console.');
         } finally {
             setIsLoading(false);
             setLoadingMessage('');
         }
     };
 
+    if (capabilities.models.length === 0) {
+        return (
+            <div className="p-4 bg-gray-800 rounded-lg shadow-inner h-full flex flex-col">
+                <h3 className="text-lg font-semibold mb-4 text-green-400">Generate Video</h3>
+                <p className="text-gray-400 text-sm">Video generation is not available with the current model provider. Switch to Gemini in the provider settings to use it.</p>
+            </div>
+        );
+    }
+
     return (
-        <div className="p-4 bg-gray-800 rounded-lg shadow-inner h-full flex flex-col">
+        <div className="p-4 bg-gray-800 rounded-lg shadow-inner h-full flex flex-col overflow-y-auto">
             <h3 className="text-lg font-semibold mb-4 text-green-400">Generate Video with Veo</h3>
-            <div 
-                className="w-full h-48 bg-gray-700 rounded-md mb-4 flex items-center justify-center cursor-pointer border-2 border-dashed border-gray-600 hover:border-green-400 transition-colors"
-                onClick={() => fileInputRef.current?.click()}
-            >
-                {previewUrl ? <img src={previewUrl} alt="Preview" className="max-h-full max-w-full object-contain" /> : <p className="text-gray-400">Click to upload starting image</p>}
-                <input type="file" accept="image/*" ref={fileInputRef} onChange={handleFileChange} className="hidden" />
-            </div>
+            {isExtending ? (
+                <div className="mb-4">
+                    <div className="flex items-center justify-between mb-2">
+                        <p className="text-sm text-gray-300">Extending this video with a follow-up prompt:</p>
+                        <button onClick={() => setSourceVideo(null)} disabled={isLoading} className="text-xs text-gray-400 hover:text-white">Start a new video instead</button>
+                    </div>
+                    <video src={sourceVideo!.url} poster={sourceVideo!.posterUrl} controls className="w-full max-h-48 rounded-md bg-black" />
+                </div>
+            ) : (
+                <div className="mb-4 space-y-2">
+                    <ImageSlot
+                        label={referenceFiles.length > 0 ? 'Remove the reference images to use a starting image' : 'Click to upload a starting image (optional)'}
+                        file={imageFile}
+                        onSelect={setImageFile}
+                        disabled={isLoading || referenceFiles.length > 0}
+                        className="h-40"
+                    />
+                    {imageFile && capabilities.lastFrame && (
+                        <ImageSlot label="Last frame (optional)" file={lastFrameFile} onSelect={setLastFrameFile} disabled={isLoading} />
+                    )}
+                    {!imageFile && capabilities.maxReferenceImages > 0 && (
+                        <div>
+                            <p className="text-xs text-gray-400 mb-1">Reference images (optional): people, objects or styles to keep consistent throughout the clip.</p>
+                            <div className="grid grid-cols-3 gap-2">
+                                {[...referenceFiles, null].slice(0, capabilities.maxReferenceImages).map((file, index) => (
+                                    <ImageSlot key={index} label="Add reference" file={file} onSelect={handleReferenceSelect(index)} disabled={isLoading} className="h-20" />
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            )}
             <textarea
-                className="w-full bg-gray-700 text-white p-2 rounded-md mb-4 flex-grow resize-none"
-                placeholder="e.g., A neon hologram of a cat driving at top speed."
+                className="w-full bg-gray-700 text-white p-2 rounded-md mb-4 min-h-[5rem] flex-grow resize-none"
+                placeholder={isExtending ? 'e.g., The camera pulls back to reveal the whole city.' : 'e.g., A neon hologram of a cat driving at top speed.'}
                 value={prompt}
                 onChange={(e) => setPrompt(e.target.value)}
                 disabled={isLoading}
             />
-             <div className="mb-4">
-                <label className="block text-sm font-medium text-gray-300 mb-2">Aspect Ratio</label>
-                <select
-                className="w-full bg-gray-700 text-white p-2 rounded-md"
-                value={aspectRatio}
-                onChange={(e) => setAspectRatio(e.target.value as '16:9' | '9:16')}
+            <input
+                className="w-full bg-gray-700 text-white p-2 rounded-md mb-4 text-sm"
+                placeholder="Negative prompt (optional), e.g. text, watermarks, blurry"
+                value={negativePrompt}
+                onChange={(e) => setNegativePrompt(e.target.value)}
                 disabled={isLoading}
-                >
-                <option value="16:9">16:9 (Landscape)</option>
-                <option value="9:16">9:16 (Portrait)</option>
-                </select>
+            />
+            <div className="grid grid-cols-2 gap-4 mb-4">
+                <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-2">Model</label>
+                    <select className="w-full bg-gray-700 text-white p-2 rounded-md" value={model} onChange={(e) => setModel(e.target.value)} disabled={isLoading}>
+                        {capabilities.models.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+                    </select>
+                </div>
+                {!isExtending && (
+                    <>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-300 mb-2">Aspect Ratio</label>
+                            <select
+                                className="w-full bg-gray-700 text-white p-2 rounded-md"
+                                value={aspectRatio}
+                                onChange={(e) => setAspectRatio(e.target.value as VideoAspectRatio)}
+                                disabled={isLoading}
+                            >
+                                <option value="16:9">16:9 (Landscape)</option>
+                                <option value="9:16">9:16 (Portrait)</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-300 mb-2">Resolution</label>
+                            <select className="w-full bg-gray-700 text-white p-2 rounded-md" value={resolution} onChange={(e) => setResolution(e.target.value as VideoResolution)} disabled={isLoading}>
+                                {capabilities.resolutions.map(option => <option key={option} value={option}>{option}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-300 mb-2">Duration</label>
+                            <select
+                                className="w-full bg-gray-700 text-white p-2 rounded-md"
+                                value={effectiveDuration}
+                                onChange={(e) => setDurationSeconds(Number(e.target.value))}
+                                disabled={isLoading || requiresLongestClip}
+                                title={requiresLongestClip ? `1080p and reference images always produce ${longestDuration} second clips.` : undefined}
+                            >
+                                {capabilities.durations.map(option => <option key={option} value={option}>{option} seconds</option>)}
+                            </select>
+                        </div>
+                    </>
+                )}
             </div>
+            {isExtending && <p className="text-xs text-gray-400 mb-4">Extensions keep the original aspect ratio and are rendered at 720p. Videos can only be extended for two days after they were generated.</p>}
             {error && <p className="text-red-400 text-sm mb-4">{error}</p>}
             {isLoading && <p className="text-blue-300 text-sm mb-4 animate-pulse">{loadingMessage}</p>}
             <button
                 onClick={handleGenerate}
-                disabled={isLoading || !imageFile || !prompt}
+                disabled={isLoading || !prompt.trim()}
                 className="w-full bg-green-600 hover:bg-green-700 disabled:bg-gray-500 text-white font-bold py-2 px-4 rounded-md transition-colors"
             >
-                {isLoading ? 'Generating...' : 'Generate Video'}
+                {isLoading ? 'Generating...' : isExtending ? 'Extend Video' : 'Generate Video'}
             </button>
-             <p className="text-xs text-gray-400 mt-2">Note: Video generation can take several minutes. Please ensure you have a valid API key with billing enabled. <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" rel="noopener noreferrer" className="underline hover:text-green-400">Learn more about billing.</a></p>
+             <p className="text-xs text-gray-400 mt-2">Note: Video generation can take several minutes and continues in the background; progress is shown in the chat. Please ensure you have a valid API key with billing enabled. <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" rel="noopener noreferrer" className="underline hover:text-green-400">Learn more about billing.</a></p>
         </div>
     );
 };
@@ -1,32 +1,97 @@
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { getAiClient } from '../services/geminiService';
-import { decode, decodeAudioData, encode } from '../utils/mediaHelpers';
-import type { LiveSession, LiveServerMessage } from '@google/genai';
-import { GoogleGenAI, Modality, Blob } from '@google/genai';
-import { MicIcon, StopIcon } from './icons';
+import { connectLive } from '../services/geminiService';
+import { classifyError } from '../services/aiErrors';
+import { decode, decodeAudioData, encode, pcmToWavMedia } from '../utils/mediaHelpers';
+import { AudioCapture, CAPTURE_SAMPLE_RATE, startAudioCapture } from '../utils/audioCapture';
+import { ChatMessage, ChatMessageRole } from '../types';
+import type { InlineData, LiveSessionHandle } from '../services/providers/types';
+import { getLiveSettings, LiveSettings, setLiveSettings } from '../services/liveSettings';
+import LiveSettingsPanel from './LiveSettingsPanel';
+import { CogIcon, MicIcon, StopIcon } from './icons';
 
 interface Transcription {
     user: string;
     model: string;
 }
 
-const LiveConversation: React.FC = () => {
+// How many of the latest chat messages are sent as context when a session starts.
+const LIVE_HISTORY_MESSAGES = 20;
+
+interface LiveConversationProps {
+    // The current conversation, used to seed the session so voice continues the text chat.
+    history: ChatMessage[];
+    // Called with the user and model messages of every completed voice turn.
+    onTurn: (messages: ChatMessage[]) => void;
+}
+
+const LiveConversation: React.FC<LiveConversationProps> = ({ history, onTurn }) => {
     const [isActive, setIsActive] = useState(false);
     const [transcriptionHistory, setTranscriptionHistory] = useState<Transcription[]>([]);
     const [currentTranscription, setCurrentTranscription] = useState<Transcription>({ user: '', model: '' });
     const [error, setError] = useState<string | null>(null);
+    const [recordAudio, setRecordAudio] = useState(false);
+    const [inputLevel, setInputLevel] = useState(0);
+    const [settings, setSettings] = useState<LiveSettings>(getLiveSettings);
+    const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+    const [isTalking, setIsTalking] = useState(false);
+
+    // Session callbacks outlive renders, so the latest turn state and props are read through refs.
+    const currentTurnRef = useRef<Transcription>({ user: '', model: '' });
+    const userAudioRef = useRef<Int16Array[]>([]);
+    const modelAudioRef = useRef<Int16Array[]>([]);
+    const recordAudioRef = useRef(recordAudio);
+    recordAudioRef.current = recordAudio;
+    const onTurnRef = useRef(onTurn);
+    onTurnRef.current = onTurn;
+    // In push-to-talk mode, microphone audio is only sent while this is set.
+    const isTalkingRef = useRef(false);
 
-    const sessionPromiseRef = useRef<Promise<LiveSession> | null>(null);
-    const inputAudioContextRef = useRef<AudioContext | null>(null);
+    const sessionPromiseRef = useRef<Promise<LiveSessionHandle> | null>(null);
     const outputAudioContextRef = useRef<AudioContext | null>(null);
     const mediaStreamRef = useRef<MediaStream | null>(null);
-    const scriptProcessorRef = useRef<ScriptProcessorNode | null>(null);
+    const captureRef = useRef<AudioCapture | null>(null);
     
     const nextStartTimeRef = useRef(0);
     const audioSourcesRef = useRef(new Set<AudioBufferSourceNode>());
 
+    const flushTurn = useCallback(() => {
+        const turn = currentTurnRef.current;
+        const userAudio = userAudioRef.current;
+        const modelAudio = modelAudioRef.current;
+        currentTurnRef.current = { user: '', model: '' };
+        userAudioRef.current = [];
+        modelAudioRef.current = [];
+        setCurrentTranscription({ user: '', model: '' });
+        if (!turn.user.trim() && !turn.model.trim()) return;
+
+        setTranscriptionHistory(hist => [...hist, turn]);
+        const now = Date.now();
+        const messages: ChatMessage[] = [];
+        if (turn.user.trim()) {
+            messages.push({
+                id: `live-${now}-user`,
+                role: ChatMessageRole.USER,
+                text: turn.user.trim(),
+                origin: 'live',
+                media: recordAudioRef.current && userAudio.length > 0 ? [pcmToWavMedia(userAudio, CAPTURE_SAMPLE_RATE, 'voice-prompt.wav')] : undefined,
+            });
+        }
+        if (turn.model.trim()) {
+            messages.push({
+                id: `live-${now}-model`,
+                role: ChatMessageRole.MODEL,
+                text: turn.model.trim(),
+                origin: 'live',
+                media: recordAudioRef.current && modelAudio.length > 0 ? [pcmToWavMedia(modelAudio, 24000, 'voice-reply.wav')] : undefined,
+            });
+        }
+        onTurnRef.current(messages);
+    }, []);
+
     const stopConversation = useCallback(() => {
+        // A turn cut short by stopping is still kept.
+        flushTurn();
         setIsActive(false);
         setError(null);
         if (sessionPromiseRef.current) {
@@ -37,13 +102,13 @@ const LiveConversation: React.FC = () => {
             mediaStreamRef.current.getTracks().forEach(track => track.stop());
             mediaStreamRef.current = null;
         }
-        if (scriptProcessorRef.current) {
-            scriptProcessorRef.current.disconnect();
-            scriptProcessorRef.current = null;
-        }
-        if (inputAudioContextRef.current && inputAudioContextRef.current.state !== 'closed') {
-            inputAudioContextRef.current.close();
+        if (captureRef.current) {
+            captureRef.current.stop();
+            captureRef.current = null;
         }
+        setInputLevel(0);
+        isTalkingRef.current = false;
+        setIsTalking(false);
         if (outputAudioContextRef.current && outputAudioContextRef.current.state !== 'closed') {
             outputAudioContextRef.current.close();
         }
@@ -52,7 +117,7 @@ const LiveConversation: React.FC = () => {
         audioSourcesRef.current.clear();
         nextStartTimeRef.current = 0;
 
-    }, []);
+    }, [flushTurn]);
 
     const startConversation = async () => {
         if (isActive) {
@@ -64,71 +129,74 @@ const LiveConversation: React.FC = () => {
         setError(null);
         setTranscriptionHistory([]);
         setCurrentTranscription({ user: '', model: '' });
+        currentTurnRef.current = { user: '', model: '' };
+        userAudioRef.current = [];
+        modelAudioRef.current = [];
 
         try {
             // @ts-ignore
             const AudioContext = window.AudioContext || window.webkitAudioContext;
-            inputAudioContextRef.current = new AudioContext({ sampleRate: 16000 });
             outputAudioContextRef.current = new AudioContext({ sampleRate: 24000 });
             
             mediaStreamRef.current = await navigator.mediaDevices.getUserMedia({ audio: true });
             
-            const ai = getAiClient();
-            
-            sessionPromiseRef.current = ai.live.connect({
-                model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-                config: {
-                    responseModalities: [Modality.AUDIO],
-                    inputAudioTranscription: {},
-                    outputAudioTranscription: {},
-                    speechConfig: {
-                        voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } },
-                    },
-                    systemInstruction: 'You are Tamur AI, a friendly and helpful assistant.',
+            sessionPromiseRef.current = connectLive(
+                {
+                    voiceName: settings.voiceName,
+                    systemInstruction: settings.systemInstruction,
+                    language: settings.language || undefined,
+                    pushToTalk: settings.pushToTalk,
+                    history: history.slice(-LIVE_HISTORY_MESSAGES),
                 },
-                callbacks: {
-                    onopen: () => {
-                        const source = inputAudioContextRef.current!.createMediaStreamSource(mediaStreamRef.current!);
-                        scriptProcessorRef.current = inputAudioContextRef.current!.createScriptProcessor(4096, 1, 1);
-
-                        scriptProcessorRef.current.onaudioprocess = (audioProcessingEvent) => {
-                            const inputData = audioProcessingEvent.inputBuffer.getChannelData(0);
-                            const l = inputData.length;
-                            const int16 = new Int16Array(l);
-                            for (let i = 0; i < l; i++) {
-                                int16[i] = inputData[i] * 32768;
+                {
+                    onOpen: () => {
+                        const stream = mediaStreamRef.current!;
+                        startAudioCapture(stream, {
+                            onChunk: (pcm) => {
+                                if (settings.pushToTalk && !isTalkingRef.current) return;
+                                if (recordAudioRef.current) {
+                                    userAudioRef.current.push(pcm);
+                                }
+                                const pcmBlob: InlineData = {
+                                    data: encode(new Uint8Array(pcm.buffer)),
+                                    mimeType: `audio/pcm;rate=${CAPTURE_SAMPLE_RATE}`,
+                                };
+                                sessionPromiseRef.current?.then((session) => {
+                                    session.sendAudio(pcmBlob);
+                                });
+                            },
+                            onLevel: setInputLevel,
+                        }).then(capture => {
+                            // The conversation may have been stopped while the worklet was loading.
+                            if (mediaStreamRef.current !== stream) {
+                                capture.stop();
+                                return;
                             }
-                            const pcmBlob: Blob = {
-                                data: encode(new Uint8Array(int16.buffer)),
-                                mimeType: 'audio/pcm;rate=16000',
-                            };
-                            
-                            sessionPromiseRef.current?.then((session) => {
-                                session.sendRealtimeInput({ media: pcmBlob });
-                            });
-                        };
-                        source.connect(scriptProcessorRef.current);
-                        scriptProcessorRef.current.connect(inputAudioContextRef.current!.destination);
+                            captureRef.current = capture;
+                        }).catch(err => {
+                            console.error('Failed to start audio capture:', err);
+                            stopConversation();
+                            setError('Could not start audio capture.');
+                        });
                     },
-                    onmessage: async (message: LiveServerMessage) => {
-                         if (message.serverContent?.inputTranscription) {
-                            setCurrentTranscription(prev => ({ ...prev, user: prev.user + message.serverContent!.inputTranscription!.text }));
-                         }
-                         if (message.serverContent?.outputTranscription) {
-                            setCurrentTranscription(prev => ({...prev, model: prev.model + message.serverContent!.outputTranscription!.text}));
-                         }
-                         if(message.serverContent?.turnComplete) {
-                            setCurrentTranscription(prev => {
-                                setTranscriptionHistory(hist => [...hist, prev]);
-                                return {user: '', model: ''};
-                            });
-                         }
-
-                        const base64Audio = message.serverContent?.modelTurn?.parts[0]?.inlineData.data;
-                        if (base64Audio && outputAudioContextRef.current) {
+                    onInputTranscription: (text) => {
+                        currentTurnRef.current = { ...currentTurnRef.current, user: currentTurnRef.current.user + text };
+                        setCurrentTranscription(currentTurnRef.current);
+                    },
+                    onOutputTranscription: (text) => {
+                        currentTurnRef.current = { ...currentTurnRef.current, model: currentTurnRef.current.model + text };
+                        setCurrentTranscription(currentTurnRef.current);
+                    },
+                    onTurnComplete: flushTurn,
+                    onAudio: async (base64Audio) => {
+                        if (outputAudioContextRef.current) {
                             const outputCtx = outputAudioContextRef.current;
                             nextStartTimeRef.current = Math.max(nextStartTimeRef.current, outputCtx.currentTime);
-                            const audioBuffer = await decodeAudioData(decode(base64Audio), outputCtx, 24000, 1);
+                            const pcm = decode(base64Audio);
+                            if (recordAudioRef.current) {
+                                modelAudioRef.current.push(new Int16Array(pcm.buffer, pcm.byteOffset, Math.floor(pcm.byteLength / 2)));
+                            }
+                            const audioBuffer = await decodeAudioData(pcm, outputCtx, 24000, 1);
                             
                             const source = outputCtx.createBufferSource();
                             source.buffer = audioBuffer;
@@ -142,22 +210,23 @@ const LiveConversation: React.FC = () => {
                             nextStartTimeRef.current += audioBuffer.duration;
                             audioSourcesRef.current.add(source);
                         }
-
-                        if (message.serverContent?.interrupted) {
-                            audioSourcesRef.current.forEach(source => source.stop());
-                            audioSourcesRef.current.clear();
-                            nextStartTimeRef.current = 0;
-                        }
                     },
-                    onerror: (e: ErrorEvent) => {
+                    onInterrupted: stopPlayback,
+                    onError: (e) => {
                         console.error('Live session error:', e);
-                        setError('A connection error occurred.');
+                        setError(classifyError(e).message);
                         stopConversation();
                     },
-                    onclose: () => {
+                    onClose: () => {
                        // Handled by user action or error
                     },
                 },
+            );
+            sessionPromiseRef.current.catch(err => {
+                console.error('Failed to connect live session:', err);
+                sessionPromiseRef.current = null;
+                stopConversation();
+                setError(classifyError(err).message);
             });
         } catch (err) {
             console.error('Failed to start conversation:', err);
@@ -166,6 +235,33 @@ const LiveConversation: React.FC = () => {
         }
     };
     
+    const handleSettingsChange = (next: LiveSettings) => {
+        setSettings(next);
+        setLiveSettings(next);
+    };
+
+    const stopPlayback = () => {
+        audioSourcesRef.current.forEach(source => source.stop());
+        audioSourcesRef.current.clear();
+        nextStartTimeRef.current = 0;
+    };
+
+    const startTalking = () => {
+        if (!isActive || isTalkingRef.current) return;
+        isTalkingRef.current = true;
+        setIsTalking(true);
+        // Talking over the model interrupts it, as it would with the open microphone.
+        stopPlayback();
+        sessionPromiseRef.current?.then(session => session.startActivity());
+    };
+
+    const stopTalking = () => {
+        if (!isTalkingRef.current) return;
+        isTalkingRef.current = false;
+        setIsTalking(false);
+        sessionPromiseRef.current?.then(session => session.endActivity());
+    };
+
     useEffect(() => {
       return () => {
           stopConversation();
@@ -177,6 +273,19 @@ const LiveConversation: React.FC = () => {
         <div className="p-4 bg-gray-800 rounded-lg shadow-inner h-full flex flex-col">
             <div className="flex justify-between items-center mb-4">
                 <h3 className="text-lg font-semibold text-yellow-400">Live Conversation</h3>
+                {isActive && (
+                    <div className="flex-1 mx-4 h-2 bg-gray-700 rounded-full overflow-hidden" title="Microphone level">
+                        {/* Speech rarely exceeds a third of full scale, so the level is scaled up to fill the bar. */}
+                        <div className="h-full bg-green-400 transition-[width] duration-100" style={{ width: `${Math.min(100, inputLevel * 300)}%` }} />
+                    </div>
+                )}
+                <button
+                    onClick={() => setIsSettingsOpen(open => !open)}
+                    className={`p-2 mr-2 rounded-full transition-colors ${isSettingsOpen ? 'bg-gray-600' : 'hover:bg-gray-700'}`}
+                    title="Live settings"
+                >
+                    <CogIcon className="w-5 h-5 text-gray-300" />
+                </button>
                 <button
                     onClick={startConversation}
                     className={`p-3 rounded-full transition-colors ${isActive ? 'bg-red-500 hover:bg-red-600' : 'bg-green-500 hover:bg-green-600'}`}
@@ -185,10 +294,35 @@ const LiveConversation: React.FC = () => {
                 </button>
             </div>
 
+            {isSettingsOpen && <LiveSettingsPanel settings={settings} onChange={handleSettingsChange} disabled={isActive} />}
+
+            <label className="flex items-center gap-2 text-sm text-gray-300 mb-4">
+                <input type="checkbox" checked={recordAudio} onChange={e => setRecordAudio(e.target.checked)} disabled={isActive} />
+                Save a recording of each turn with its transcript in the chat
+            </label>
+
             {error && <p className="text-red-400 text-sm mb-4">{error}</p>}
+
+            {isActive && settings.pushToTalk && (
+                <button
+                    onPointerDown={startTalking}
+                    onPointerUp={stopTalking}
+                    onPointerLeave={stopTalking}
+                    onKeyDown={e => { if (e.key === ' ' && !e.repeat) { e.preventDefault(); startTalking(); } }}
+                    onKeyUp={e => { if (e.key === ' ') stopTalking(); }}
+                    className={`w-full mb-4 py-4 rounded-lg font-semibold select-none transition-colors ${isTalking ? 'bg-yellow-500 text-gray-900' : 'bg-gray-700 hover:bg-gray-600 text-white'}`}
+                >
+                    {isTalking ? 'Listening… release to send' : 'Hold to talk (or hold Space)'}
+                </button>
+            )}
             
             <div className="flex-grow bg-gray-900 rounded-lg p-3 overflow-y-auto">
-                {transcriptionHistory.map((t, i) => (
+                {!settings.showTranscripts && (isActive || transcriptionHistory.length > 0) && (
+                    <div className="flex items-center justify-center h-full">
+                        <p className="text-gray-500">Transcripts are hidden. Turns are still saved to the chat.</p>
+                    </div>
+                )}
+                {settings.showTranscripts && transcriptionHistory.map((t, i) => (
                     <div key={i} className="mb-4">
                         <p className="text-blue-300 font-semibold">You:</p>
                         <p className="text-gray-300 ml-2">{t.user}</p>
@@ -196,7 +330,7 @@ const LiveConversation: React.FC = () => {
                         <p className="text-gray-300 ml-2">{t.model}</p>
                     </div>
                 ))}
-                {isActive && (
+                {settings.showTranscripts && isActive && (
                     <div className="animate-pulse">
                         <p className="text-blue-300 font-semibold">You:</p>
                         <p className="text-gray-300 ml-2">{currentTranscription.user || '...'}</p>
@@ -206,7 +340,7 @@ const LiveConversation: React.FC = () => {
                 )}
                 {!isActive && transcriptionHistory.length === 0 && (
                     <div className="flex items-center justify-center h-full">
-                        <p className="text-gray-500">Click the mic to start a conversation.</p>
+                        <p className="text-gray-500">Click the mic to continue this conversation by voice.</p>
                     </div>
                 )}
             </div>
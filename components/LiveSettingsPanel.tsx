@@ -0,0 +1,54 @@
+import React from 'react';
+import { LIVE_LANGUAGES, LIVE_VOICES, LiveSettings } from '../services/liveSettings';
+
+interface LiveSettingsPanelProps {
+  settings: LiveSettings;
+  onChange: (settings: LiveSettings) => void;
+  // Settings are applied on connect, so they are locked while a session is running.
+  disabled?: boolean;
+}
+
+const LiveSettingsPanel: React.FC<LiveSettingsPanelProps> = ({ settings, onChange, disabled }) => {
+    const update = <K extends keyof LiveSettings>(field: K, value: LiveSettings[K]) => onChange({ ...settings, [field]: value });
+
+    return (
+        <div className="bg-gray-900 rounded-lg p-3 mb-4 space-y-3 text-sm">
+            <div className="grid grid-cols-2 gap-3">
+                <div>
+                    <label htmlFor="live-voice" className="block text-gray-300 mb-1">Voice</label>
+                    <select id="live-voice" className="w-full bg-gray-700 text-white p-2 rounded-md" value={settings.voiceName} onChange={e => update('voiceName', e.target.value)} disabled={disabled}>
+                        {LIVE_VOICES.map(voice => <option key={voice} value={voice}>{voice}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label htmlFor="live-language" className="block text-gray-300 mb-1">Response language</label>
+                    <select id="live-language" className="w-full bg-gray-700 text-white p-2 rounded-md" value={settings.language} onChange={e => update('language', e.target.value)} disabled={disabled}>
+                        <option value="">Same as mine</option>
+                        {LIVE_LANGUAGES.map(language => <option key={language} value={language}>{language}</option>)}
+                    </select>
+                </div>
+            </div>
+            <div>
+                <label htmlFor="live-persona" className="block text-gray-300 mb-1">Persona / system instruction</label>
+                <textarea
+                    id="live-persona"
+                    className="w-full bg-gray-700 text-white p-2 rounded-md resize-none"
+                    rows={3}
+                    value={settings.systemInstruction}
+                    onChange={e => update('systemInstruction', e.target.value)}
+                    disabled={disabled}
+                />
+            </div>
+            <label className="flex items-center gap-2 text-gray-300">
+                <input type="checkbox" checked={settings.showTranscripts} onChange={e => update('showTranscripts', e.target.checked)} />
+                Show transcripts
+            </label>
+            <label className="flex items-center gap-2 text-gray-300">
+                <input type="checkbox" checked={settings.pushToTalk} onChange={e => update('pushToTalk', e.target.checked)} disabled={disabled} />
+                Push to talk (hold the talk button instead of keeping the microphone open)
+            </label>
+        </div>
+    );
+};
+
+export default LiveSettingsPanel;
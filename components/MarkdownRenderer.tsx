@@ -0,0 +1,94 @@
+import React, { useRef, useState } from 'react';
+import Markdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeSanitize, { defaultSchema } from 'rehype-sanitize';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import { CheckIcon, CopyIcon } from './icons';
+
+// Sanitization runs before math and highlighting so only their trusted output is added afterwards.
+// The default schema strips code classes other than `language-*`, which remark-math relies on.
+const sanitizeSchema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    code: [['className', /^language-./, 'math-inline', 'math-display']],
+  },
+};
+
+const CITATION_HREF = /^#(?:user-content-)?cite-(S\d+)$/;
+
+// Turns `[S1]` tokens into `#cite-S1` links outside of code spans, so the renderer can swap them for chips.
+const linkCitations = (text: string): string =>
+  text
+    .split(/(```[\s\S]*?(?:```|$)|`[^`\n]*`)/g)
+    .map((segment, index) => index % 2 === 1 ? segment : segment.replace(/\[(S\d+)\](?!\()/g, '[$1](#cite-$1)'))
+    .join('');
+
+const CodeBlock: React.FC<React.HTMLAttributes<HTMLPreElement>> = ({ children, ...props }) => {
+    const preRef = useRef<HTMLPreElement>(null);
+    const [copied, setCopied] = useState(false);
+
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(preRef.current?.textContent ?? '');
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+        } catch (e) {
+            console.error('Failed to copy code:', e);
+        }
+    };
+
+    return (
+        <div className="relative group not-prose my-4">
+            <button
+                onClick={handleCopy}
+                className="absolute top-2 right-2 p-1.5 rounded-md bg-gray-700 text-gray-300 hover:text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                title={copied ? 'Copied' : 'Copy code'}
+            >
+                {copied ? <CheckIcon className="w-4 h-4" /> : <CopyIcon className="w-4 h-4" />}
+            </button>
+            <pre ref={preRef} {...props} className="bg-gray-950 rounded-lg p-4 overflow-x-auto text-sm">{children}</pre>
+        </div>
+    );
+};
+
+interface MarkdownRendererProps {
+  text: string;
+  onSourceClick: (id: string) => void;
+}
+
+const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({ text, onSourceClick }) => {
+    const components: Components = {
+        a: ({ href, children, node, ...props }) => {
+            const citation = href?.match(CITATION_HREF);
+            if (citation) {
+                return (
+                    <button onClick={() => onSourceClick(citation[1])} className="inline-block bg-blue-800 text-blue-200 text-xs font-bold px-2 py-0.5 rounded-full mx-1 no-underline hover:bg-blue-700 transition-colors">
+                        {citation[1]}
+                    </button>
+                );
+            }
+            return <a href={href} target="_blank" rel="noopener noreferrer" {...props}>{children}</a>;
+        },
+        pre: ({ node, ...props }) => <CodeBlock {...props} />,
+        table: ({ node, ...props }) => (
+            <div className="overflow-x-auto">
+                <table {...props} />
+            </div>
+        ),
+    };
+
+    return (
+        <Markdown
+            remarkPlugins={[remarkGfm, remarkMath]}
+            rehypePlugins={[[rehypeSanitize, sanitizeSchema], rehypeKatex, rehypeHighlight]}
+            components={components}
+        >
+            {linkCitations(text)}
+        </Markdown>
+    );
+};
+
+export default MarkdownRenderer;
@@ -0,0 +1,101 @@
+import React, { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import type { InlineData } from '../services/providers/types';
+
+export interface MaskCanvasHandle {
+  // Returns a PNG the size of the image with the painted region in white on black, or null if nothing was painted.
+  getMask: () => InlineData | null;
+  clear: () => void;
+}
+
+interface MaskCanvasProps {
+  imageUrl: string;
+  disabled?: boolean;
+}
+
+// Shows an image with a brush overlay for painting the region an edit should be restricted to.
+const MaskCanvas = forwardRef<MaskCanvasHandle, MaskCanvasProps>(({ imageUrl, disabled }, ref) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const isDrawingRef = useRef(false);
+    const [brushSize, setBrushSize] = useState(40);
+    const [hasMask, setHasMask] = useState(false);
+
+    const clear = () => {
+        const canvas = canvasRef.current;
+        canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+        setHasMask(false);
+    };
+
+    // The overlay canvas uses the image's natural resolution so the mask lines up pixel for pixel.
+    useEffect(() => {
+        const image = new Image();
+        image.onload = () => {
+            const canvas = canvasRef.current;
+            if (!canvas) return;
+            canvas.width = image.naturalWidth;
+            canvas.height = image.naturalHeight;
+            setHasMask(false);
+        };
+        image.src = imageUrl;
+    }, [imageUrl]);
+
+    useImperativeHandle(ref, () => ({
+        getMask: () => {
+            const canvas = canvasRef.current;
+            if (!canvas || !hasMask) return null;
+            const mask = document.createElement('canvas');
+            mask.width = canvas.width;
+            mask.height = canvas.height;
+            const ctx = mask.getContext('2d')!;
+            ctx.fillStyle = 'black';
+            ctx.fillRect(0, 0, mask.width, mask.height);
+            ctx.drawImage(canvas, 0, 0);
+            // Turn the translucent brush strokes into solid white.
+            const pixels = ctx.getImageData(0, 0, mask.width, mask.height);
+            for (let i = 0; i < pixels.data.length; i += 4) {
+                const value = pixels.data[i] > 0 ? 255 : 0;
+                pixels.data[i] = pixels.data[i + 1] = pixels.data[i + 2] = value;
+                pixels.data[i + 3] = 255;
+            }
+            ctx.putImageData(pixels, 0, 0);
+            return { data: mask.toDataURL('image/png').split(',')[1], mimeType: 'image/png' };
+        },
+        clear,
+    }), [hasMask]);
+
+    const paint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const canvas = canvasRef.current;
+        if (!canvas || !isDrawingRef.current) return;
+        const rect = canvas.getBoundingClientRect();
+        const scale = canvas.width / rect.width;
+        const ctx = canvas.getContext('2d')!;
+        ctx.fillStyle = 'rgba(255, 0, 0, 0.5)';
+        ctx.beginPath();
+        ctx.arc((e.clientX - rect.left) * scale, (e.clientY - rect.top) * scale, (brushSize / 2) * scale, 0, Math.PI * 2);
+        ctx.fill();
+        setHasMask(true);
+    };
+
+    return (
+        <div>
+            <div className="relative inline-block max-w-full">
+                <img src={imageUrl} alt="Edit source" className="max-h-80 max-w-full object-contain rounded-md select-none" draggable={false} />
+                <canvas
+                    ref={canvasRef}
+                    className={`absolute inset-0 w-full h-full ${disabled ? 'pointer-events-none' : 'cursor-crosshair'}`}
+                    onPointerDown={e => { isDrawingRef.current = true; e.currentTarget.setPointerCapture(e.pointerId); paint(e); }}
+                    onPointerMove={paint}
+                    onPointerUp={() => { isDrawingRef.current = false; }}
+                    onPointerLeave={() => { isDrawingRef.current = false; }}
+                />
+            </div>
+            <div className="flex items-center gap-3 mt-2 text-sm text-gray-300">
+                <label htmlFor="brush-size">Brush</label>
+                <input id="brush-size" type="range" min={5} max={150} value={brushSize} onChange={e => setBrushSize(Number(e.target.value))} disabled={disabled} />
+                <button onClick={clear} disabled={disabled || !hasMask} className="px-2 py-1 rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50">Clear mask</button>
+                <span className="text-xs text-gray-400">{hasMask ? 'Edit limited to the painted area' : 'Paint to limit the edit to a region'}</span>
+            </div>
+        </div>
+    );
+});
+
+export default MaskCanvas;
@@ -0,0 +1,180 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AssetFilter, AssetSource, deleteAssets, downloadAssetsAsZip, filterAssets, getAssetFileName, listAssets, MediaAsset } from '../services/mediaLibrary';
+import { downloadBlob } from '../utils/mediaHelpers';
+import { ZipTooLargeError } from '../utils/zip';
+import { CheckIcon, DocumentIcon, DownloadIcon, TrashIcon } from './icons';
+
+interface MediaLibraryPanelProps {
+  onUseInEditor: (asset: MediaAsset) => void;
+  onUseForVideo: (asset: MediaAsset) => void;
+}
+
+const TYPE_OPTIONS: [AssetFilter['type'], string][] = [
+  ['all', 'All types'],
+  ['image', 'Images'],
+  ['video', 'Videos'],
+  ['audio', 'Audio'],
+  ['document', 'Documents'],
+];
+
+const SOURCE_LABELS: Record<AssetSource, string> = {
+  generated: 'Generated',
+  edited: 'Edited',
+  uploaded: 'Uploaded',
+};
+
+export const MediaLibraryPanel: React.FC<MediaLibraryPanelProps> = ({ onUseInEditor, onUseForVideo }) => {
+    const [assets, setAssets] = useState<MediaAsset[]>([]);
+    const [filter, setFilter] = useState<AssetFilter>({ query: '', type: 'all', source: 'all' });
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+    const [isLoading, setIsLoading] = useState(true);
+    const [isZipping, setIsZipping] = useState(false);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        listAssets()
+            .then(setAssets)
+            .catch(e => {
+                console.error("Error loading the media library:", e);
+                setError('Could not load the media library.');
+            })
+            .finally(() => setIsLoading(false));
+    }, []);
+
+    // Blob URLs for previews, released whenever the asset list changes or the panel closes.
+    const previewUrls = useMemo(() => new Map(assets.map(asset => [asset.id, URL.createObjectURL(asset.blob)])), [assets]);
+    useEffect(() => () => previewUrls.forEach(url => URL.revokeObjectURL(url)), [previewUrls]);
+
+    const visible = useMemo(() => filterAssets(assets, filter), [assets, filter]);
+    const selectedVisible = visible.filter(asset => selected.has(asset.id));
+
+    const toggleSelected = (id: string) => {
+        setSelected(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) {
+                next.delete(id);
+            } else {
+                next.add(id);
+            }
+            return next;
+        });
+    };
+
+    const handleDownloadZip = async () => {
+        setIsZipping(true);
+        try {
+            await downloadAssetsAsZip(selectedVisible.length > 0 ? selectedVisible : visible);
+        } catch (e) {
+            console.error("Error creating the ZIP archive:", e);
+            setError(e instanceof ZipTooLargeError ? e.message : 'Could not create the ZIP archive.');
+        } finally {
+            setIsZipping(false);
+        }
+    };
+
+    const handleDelete = async (targets: MediaAsset[]) => {
+        if (!window.confirm(targets.length === 1 ? 'Delete this file from the library?' : `Delete ${targets.length} files from the library?`)) return;
+        try {
+            await deleteAssets(targets.map(asset => asset.id));
+            const ids = new Set(targets.map(asset => asset.id));
+            setAssets(prev => prev.filter(asset => !ids.has(asset.id)));
+            setSelected(prev => new Set([...prev].filter(id => !ids.has(id))));
+        } catch (e) {
+            console.error("Error deleting from the media library:", e);
+            setError('Could not delete the selected files.');
+        }
+    };
+
+    return (
+        <div className="p-4 bg-gray-800 rounded-lg shadow-inner h-full flex flex-col min-h-0">
+            <h3 className="text-lg font-semibold mb-4 text-orange-400">Media Library</h3>
+            <div className="flex flex-wrap gap-2 mb-4">
+                <input
+                    value={filter.query}
+                    onChange={e => setFilter(prev => ({ ...prev, query: e.target.value }))}
+                    placeholder="Search prompts, names and models"
+                    className="flex-1 min-w-[12rem] bg-gray-700 text-white p-2 rounded-md text-sm"
+                />
+                <select
+                    value={filter.type}
+                    onChange={e => setFilter(prev => ({ ...prev, type: e.target.value as AssetFilter['type'] }))}
+                    className="bg-gray-700 text-white p-2 rounded-md text-sm"
+                >
+                    {TYPE_OPTIONS.map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                </select>
+                <select
+                    value={filter.source}
+                    onChange={e => setFilter(prev => ({ ...prev, source: e.target.value as AssetFilter['source'] }))}
+                    className="bg-gray-700 text-white p-2 rounded-md text-sm"
+                >
+                    <option value="all">All sources</option>
+                    {(Object.keys(SOURCE_LABELS) as AssetSource[]).map(source => <option key={source} value={source}>{SOURCE_LABELS[source]}</option>)}
+                </select>
+            </div>
+            <div className="flex items-center gap-2 mb-4 text-sm">
+                <span className="text-gray-400 flex-1">
+                    {visible.length} {visible.length === 1 ? 'file' : 'files'}{selectedVisible.length > 0 && `, ${selectedVisible.length} selected`}
+                </span>
+                <button onClick={handleDownloadZip} disabled={isZipping || visible.length === 0} className="flex items-center gap-1 px-3 py-1 rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50">
+                    <DownloadIcon className="w-4 h-4" />
+                    {isZipping ? 'Zipping…' : selectedVisible.length > 0 ? 'Download selected (ZIP)' : 'Download all (ZIP)'}
+                </button>
+                <button onClick={() => handleDelete(selectedVisible)} disabled={selectedVisible.length === 0} className="flex items-center gap-1 px-3 py-1 rounded-md bg-gray-700 hover:bg-red-700 disabled:opacity-50">
+                    <TrashIcon className="w-4 h-4" />
+                    Delete selected
+                </button>
+            </div>
+            {error && <p className="text-red-400 text-sm mb-4">{error}</p>}
+            <div className="flex-1 overflow-y-auto">
+                {!isLoading && visible.length === 0 && (
+                    <p className="text-gray-400 text-sm">{assets.length === 0 ? 'Generated, edited and uploaded files will appear here.' : 'No files match the filters.'}</p>
+                )}
+                <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
+                    {visible.map(asset => {
+                        const url = previewUrls.get(asset.id)!;
+                        const isSelected = selected.has(asset.id);
+                        return (
+                            <div key={asset.id} className={`bg-gray-700 rounded-lg overflow-hidden border-2 ${isSelected ? 'border-orange-400' : 'border-transparent'}`}>
+                                <div className="relative aspect-square bg-gray-900 flex items-center justify-center">
+                                    {asset.type === 'image' && <img src={url} alt={asset.prompt ?? asset.name ?? 'Image'} className="w-full h-full object-cover" />}
+                                    {asset.type === 'video' && <video src={url} controls className="w-full h-full object-contain" />}
+                                    {asset.type === 'audio' && <audio src={url} controls className="w-full px-2" />}
+                                    {asset.type === 'document' && <DocumentIcon className="w-12 h-12 text-gray-500" />}
+                                    <button
+                                        onClick={() => toggleSelected(asset.id)}
+                                        className={`absolute top-2 left-2 w-6 h-6 rounded flex items-center justify-center ${isSelected ? 'bg-orange-500' : 'bg-gray-800/80 hover:bg-gray-700'}`}
+                                        title={isSelected ? 'Deselect' : 'Select'}
+                                    >
+                                        {isSelected && <CheckIcon className="w-4 h-4" />}
+                                    </button>
+                                </div>
+                                <div className="p-2 text-xs space-y-1">
+                                    <p className="text-gray-200 truncate" title={asset.prompt ?? asset.name}>{asset.prompt ?? asset.name ?? getAssetFileName(asset)}</p>
+                                    <p className="text-gray-400 truncate">
+                                        {SOURCE_LABELS[asset.source]} · {new Date(asset.createdAt).toLocaleDateString()}
+                                        {asset.model && ` · ${asset.model}`}
+                                        {asset.aspectRatio && ` · ${asset.aspectRatio}`}
+                                    </p>
+                                    <div className="flex flex-wrap gap-1 pt-1">
+                                        {asset.type === 'image' && (
+                                            <>
+                                                <button onClick={() => onUseInEditor(asset)} className="px-2 py-0.5 rounded bg-purple-700 hover:bg-purple-600">Edit</button>
+                                                <button onClick={() => onUseForVideo(asset)} className="px-2 py-0.5 rounded bg-green-700 hover:bg-green-600">Animate</button>
+                                            </>
+                                        )}
+                                        <button onClick={() => downloadBlob(asset.blob, getAssetFileName(asset))} className="p-1 rounded hover:bg-gray-600" title="Download">
+                                            <DownloadIcon className="w-3 h-3" />
+                                        </button>
+                                        <button onClick={() => handleDelete([asset])} className="p-1 rounded hover:bg-red-700" title="Delete">
+                                            <TrashIcon className="w-3 h-3" />
+                                        </button>
+                                    </div>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        </div>
+    );
+};
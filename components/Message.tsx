@@ -0,0 +1,248 @@
+import React, { useState } from 'react';
+import { ChatMessage, ChatMessageRole, Media, ResponseFinish } from '../types';
+import { insertCitationMarkers } from '../utils/citations';
+import { ERROR_KIND_LABELS } from '../services/aiErrors';
+import { estimateCost, formatCost } from '../services/usageTracker';
+import MarkdownRenderer from './MarkdownRenderer';
+import ToolCallView from './ToolCallView';
+import { getMediaFileName } from '../utils/mediaHelpers';
+import { BotIcon, ChevronLeftIcon, ChevronRightIcon, DocumentIcon, DownloadIcon, MicIcon, PencilIcon, PlusIcon, RefreshIcon, SpeakerIcon, UserIcon } from './icons';
+
+const FINISH_DESCRIPTIONS: Record<ResponseFinish['reason'], [string, string]> = {
+  'max-tokens': ['Truncated', 'The reply reached the output token limit.'],
+  'safety': ['Stopped by safety filters', 'The reply was cut off by the safety filters.'],
+  'blocked': ['Prompt blocked', 'The prompt was blocked by the safety filters, so there is no reply. Try rephrasing it.'],
+  'recitation': ['Stopped for recitation', 'The reply was stopped because it was repeating protected content too closely.'],
+  'other': ['Stopped early', 'The model stopped before finishing the reply.'],
+};
+
+// `HARM_CATEGORY_DANGEROUS_CONTENT` -> `dangerous content`.
+const formatCategory = (category: string) => category.replace(/^HARM_CATEGORY_/, '').replace(/_/g, ' ').toLowerCase();
+
+interface MessageProps {
+  message: ChatMessage;
+  onSourceClick: (id: string) => void;
+  // Actions are disabled while another reply is streaming.
+  disabled?: boolean;
+  onRegenerate?: () => void;
+  onEdit?: (text: string) => void;
+  onSelectVersion?: (index: number) => void;
+  onCancelJob?: (jobId: string) => void;
+  // Opens the video generator to continue a generated video with a follow-up prompt.
+  onExtendVideo?: (video: Media) => void;
+  // Generates speech for the reply and attaches it as audio; `isReadingAloud` is set while that is in progress.
+  onReadAloud?: () => void;
+  isReadingAloud?: boolean;
+  onConfirmToolCall?: (callId: string, approved: boolean) => void;
+  onOpenProviderSettings?: () => void;
+  onContinue?: () => void;
+}
+
+const Message: React.FC<MessageProps> = ({ message, onSourceClick, disabled, onRegenerate, onEdit, onSelectVersion, onCancelJob, onExtendVideo, onReadAloud, isReadingAloud, onConfirmToolCall, onOpenProviderSettings, onContinue }) => {
+    const isUser = message.role === ChatMessageRole.USER;
+    const Icon = isUser ? UserIcon : BotIcon;
+    const [isEditing, setIsEditing] = useState(false);
+    const [draft, setDraft] = useState('');
+
+    const isJobActive = message.job?.status === 'pending' || message.job?.status === 'running';
+    const versionCount = message.versions?.length ?? 0;
+    const versionIndex = message.versionIndex ?? 0;
+
+    const startEditing = () => {
+        setDraft(message.text);
+        setIsEditing(true);
+    };
+
+    const submitEdit = () => {
+        if (!draft.trim() || !onEdit) return;
+        setIsEditing(false);
+        onEdit(draft);
+    };
+
+    return (
+        <div className={`group flex items-start gap-4 p-4 ${isUser ? '' : 'bg-gray-800/50'}`}>
+            <div className={`flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center ${isUser ? 'bg-indigo-500' : 'bg-teal-500'}`}>
+                <Icon className="w-5 h-5 text-white" />
+            </div>
+            <div className="flex-grow pt-1 min-w-0">
+                {message.origin === 'live' && (
+                    <p className="flex items-center gap-1 text-xs text-yellow-400 mb-1">
+                        <MicIcon className="w-3 h-3" />
+                        Voice
+                    </p>
+                )}
+                {message.toolCalls?.map(call => (
+                    <ToolCallView key={call.id} call={call} onConfirm={onConfirmToolCall ? (approved) => onConfirmToolCall(call.id, approved) : undefined} />
+                ))}
+                {isEditing ? (
+                    <div>
+                        <textarea
+                            autoFocus
+                            value={draft}
+                            onChange={e => setDraft(e.target.value)}
+                            onKeyDown={e => {
+                                if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); submitEdit(); }
+                                if (e.key === 'Escape') setIsEditing(false);
+                            }}
+                            className="w-full bg-gray-700 text-white p-2 rounded-md resize-none focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            rows={3}
+                        />
+                        <div className="flex justify-end gap-2 mt-2">
+                            <button onClick={() => setIsEditing(false)} className="px-3 py-1 rounded-md bg-gray-700 hover:bg-gray-600 text-sm">Cancel</button>
+                            <button onClick={submitEdit} disabled={disabled || !draft.trim()} className="px-3 py-1 rounded-md bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-sm font-semibold">Save & Submit</button>
+                        </div>
+                    </div>
+                ) : (
+                    <div className="prose prose-invert max-w-none">
+                       <MarkdownRenderer text={insertCitationMarkers(message.text, message.citations ?? [])} onSourceClick={onSourceClick} />
+                       {message.isLoading && <span className="inline-block w-3 h-3 bg-white rounded-full ml-2 animate-pulse"></span>}
+                    </div>
+                )}
+                {isJobActive && message.job && (
+                    <div className="mt-2 bg-gray-700/60 border border-gray-600 text-gray-200 text-sm rounded-md p-3 flex items-center justify-between gap-4">
+                        <div className="flex items-center gap-3">
+                            <span className="inline-block w-3 h-3 bg-green-400 rounded-full animate-pulse"></span>
+                            <div>
+                                <p>{message.job.status === 'pending' ? 'Submitting video generation...' : 'Video generation in progress. This can take a few minutes.'}</p>
+                                <p className="text-xs text-gray-400">
+                                    Started {new Date(message.job.startedAt).toLocaleTimeString()}
+                                    {message.job.lastCheckedAt && ` · last checked ${new Date(message.job.lastCheckedAt).toLocaleTimeString()}`}
+                                </p>
+                            </div>
+                        </div>
+                        {onCancelJob && (
+                            <button onClick={() => onCancelJob(message.job!.id)} className="flex-shrink-0 px-3 py-1 rounded-md bg-gray-600 hover:bg-gray-500 text-white text-xs font-semibold">
+                                Cancel
+                            </button>
+                        )}
+                    </div>
+                )}
+                {message.error && (
+                    <div className="mt-2 bg-red-900/40 border border-red-700 text-red-200 text-sm rounded-md p-3 flex items-center justify-between gap-4">
+                        <span>
+                            {message.errorKind && (
+                                <span className="mr-2 px-1.5 py-0.5 rounded bg-red-800 text-red-100 text-xs font-semibold uppercase tracking-wide">{ERROR_KIND_LABELS[message.errorKind]}</span>
+                            )}
+                            {message.error}
+                        </span>
+                        <div className="flex-shrink-0 flex gap-2">
+                            {message.errorKind === 'auth' && onOpenProviderSettings && (
+                                <button onClick={onOpenProviderSettings} disabled={disabled} className="px-3 py-1 rounded-md bg-gray-600 hover:bg-gray-500 disabled:bg-gray-600 text-white text-xs font-semibold">
+                                    Provider settings
+                                </button>
+                            )}
+                            {onRegenerate && (
+                                <button onClick={onRegenerate} disabled={disabled} className="px-3 py-1 rounded-md bg-red-700 hover:bg-red-600 disabled:bg-gray-600 text-white text-xs font-semibold">
+                                    Retry
+                                </button>
+                            )}
+                        </div>
+                    </div>
+                )}
+                {message.finish && !message.isLoading && (
+                    <div className="mt-2 bg-yellow-900/30 border border-yellow-700 text-yellow-100 text-sm rounded-md p-3 flex items-center justify-between gap-4">
+                        <div>
+                            <p>
+                                <span className="mr-2 px-1.5 py-0.5 rounded bg-yellow-800 text-yellow-100 text-xs font-semibold uppercase tracking-wide" title={message.finish.detail}>
+                                    {FINISH_DESCRIPTIONS[message.finish.reason][0]}
+                                </span>
+                                {FINISH_DESCRIPTIONS[message.finish.reason][1]}
+                            </p>
+                            {message.finish.safetyRatings && message.finish.safetyRatings.length > 0 && (
+                                <ul className="mt-1 text-xs text-yellow-200/80">
+                                    {message.finish.safetyRatings.map(rating => (
+                                        <li key={rating.category}>
+                                            {formatCategory(rating.category)}: {rating.probability.toLowerCase()}{rating.blocked && ' (blocked)'}
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+                        {onContinue && (
+                            <button onClick={onContinue} disabled={disabled} className="flex-shrink-0 px-3 py-1 rounded-md bg-yellow-700 hover:bg-yellow-600 disabled:bg-gray-600 text-white text-xs font-semibold">
+                                Continue
+                            </button>
+                        )}
+                    </div>
+                )}
+                {message.media && message.media.length > 0 && (
+                     <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        {message.media.map((media, index) => (
+                            <div key={index} className="bg-gray-700 p-2 rounded-lg">
+                                {media.type === 'image' && <img src={media.url} alt={media.prompt || 'Generated image'} className="rounded-md w-full" />}
+                                {media.type === 'video' && (
+                                    <>
+                                        <video src={media.url} poster={media.posterUrl} preload="metadata" controls className="rounded-md w-full" />
+                                        <div className="flex items-center gap-3 mt-2 text-xs">
+                                            <a href={media.url} download={getMediaFileName(media, `video-${message.id}-${index + 1}`)} className="inline-flex items-center gap-1 text-gray-300 hover:text-white">
+                                                <DownloadIcon className="w-4 h-4" />
+                                                Download video
+                                            </a>
+                                            {onExtendVideo && media.sourceUri && (
+                                                <button onClick={() => onExtendVideo(media)} disabled={disabled} className="inline-flex items-center gap-1 text-gray-300 hover:text-white disabled:opacity-40">
+                                                    <PlusIcon className="w-4 h-4" />
+                                                    Extend
+                                                </button>
+                                            )}
+                                        </div>
+                                    </>
+                                )}
+                                {media.type === 'audio' && <audio src={media.url} controls className="w-full" />}
+                                {media.type === 'document' && (
+                                    <a href={media.url} download={media.name} className="flex items-center gap-2 text-sm text-gray-200 hover:text-white">
+                                        <DocumentIcon className="w-6 h-6 flex-shrink-0 text-gray-400" />
+                                        <span className="truncate">{media.name || media.mimeType}</span>
+                                    </a>
+                                )}
+                                {media.prompt && <p className="text-xs text-gray-400 mt-2 italic">Prompt: "{media.prompt}"</p>}
+                            </div>
+                        ))}
+                    </div>
+                )}
+                {!message.isLoading && !isEditing && (
+                    <div className="flex items-center gap-1 mt-2 text-gray-400 text-xs">
+                        {versionCount > 1 && onSelectVersion && (
+                            <div className="flex items-center mr-2">
+                                <button onClick={() => onSelectVersion(versionIndex - 1)} disabled={disabled || versionIndex === 0} className="p-1 hover:text-white disabled:opacity-40" title="Previous version">
+                                    <ChevronLeftIcon className="w-4 h-4" />
+                                </button>
+                                <span>{versionIndex + 1} / {versionCount}</span>
+                                <button onClick={() => onSelectVersion(versionIndex + 1)} disabled={disabled || versionIndex === versionCount - 1} className="p-1 hover:text-white disabled:opacity-40" title="Next version">
+                                    <ChevronRightIcon className="w-4 h-4" />
+                                </button>
+                            </div>
+                        )}
+                        <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                            {onEdit && (
+                                <button onClick={startEditing} disabled={disabled} className="p-1 hover:text-white disabled:opacity-40" title="Edit and resend">
+                                    <PencilIcon className="w-4 h-4" />
+                                </button>
+                            )}
+                            {onRegenerate && !message.error && (
+                                <button onClick={onRegenerate} disabled={disabled} className="p-1 hover:text-white disabled:opacity-40" title="Regenerate">
+                                    <RefreshIcon className="w-4 h-4" />
+                                </button>
+                            )}
+                            {onReadAloud && message.text.trim() && (
+                                <button onClick={onReadAloud} disabled={isReadingAloud} className="p-1 hover:text-white disabled:opacity-40" title={isReadingAloud ? 'Generating speech...' : 'Read aloud'}>
+                                    <SpeakerIcon className={`w-4 h-4 ${isReadingAloud ? 'animate-pulse' : ''}`} />
+                                </button>
+                            )}
+                        </div>
+                        {message.usage && (
+                            <span
+                                className="ml-auto text-gray-500"
+                                title={`${message.model ?? 'Unknown model'}: ${message.usage.cachedTokens.toLocaleString()} cached prompt tokens, ${message.usage.thinkingTokens.toLocaleString()} thinking tokens`}
+                            >
+                                {message.usage.promptTokens.toLocaleString()} in · {(message.usage.responseTokens + message.usage.thinkingTokens).toLocaleString()} out
+                                {message.model && ` · ~${formatCost(estimateCost(message.model, message.usage))}`}
+                            </span>
+                        )}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default Message;
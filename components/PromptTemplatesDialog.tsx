@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { deleteTemplate, getTemplateVariables, listTemplates, PromptTemplate, saveTemplate } from '../services/promptTemplates';
+import { PencilIcon, TrashIcon, XIcon } from './icons';
+
+interface PromptTemplatesDialogProps {
+  // Called with the full list after every change.
+  onChange: (templates: PromptTemplate[]) => void;
+  onClose: () => void;
+}
+
+const PromptTemplatesDialog: React.FC<PromptTemplatesDialogProps> = ({ onChange, onClose }) => {
+    const [templates, setTemplates] = useState<PromptTemplate[]>(listTemplates);
+    const [editingId, setEditingId] = useState<string | undefined>();
+    const [name, setName] = useState('');
+    const [text, setText] = useState('');
+
+    const variables = getTemplateVariables(text);
+
+    const update = () => {
+        const next = listTemplates();
+        setTemplates(next);
+        onChange(next);
+    };
+
+    const resetForm = () => {
+        setEditingId(undefined);
+        setName('');
+        setText('');
+    };
+
+    const handleSave = () => {
+        if (!name.trim() || !text.trim()) return;
+        saveTemplate({ id: editingId, name: name.trim(), text });
+        update();
+        resetForm();
+    };
+
+    const handleEdit = (template: PromptTemplate) => {
+        setEditingId(template.id);
+        setName(template.name);
+        setText(template.text);
+    };
+
+    const handleDelete = (template: PromptTemplate) => {
+        if (!window.confirm(`Delete the template "${template.name}"?`)) return;
+        deleteTemplate(template.id);
+        update();
+        if (editingId === template.id) resetForm();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50" onClick={onClose}>
+            <div className="bg-gray-800 rounded-lg shadow-xl w-full max-w-xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center justify-between p-4 border-b border-gray-700">
+                    <h2 className="text-lg font-semibold text-blue-300">Prompt templates</h2>
+                    <button onClick={onClose} className="text-gray-400 hover:text-white" title="Close">
+                        <XIcon className="w-5 h-5" />
+                    </button>
+                </div>
+                <div className="flex-1 overflow-y-auto p-4 space-y-4 text-sm">
+                    {templates.length > 0 ? (
+                        <ul className="space-y-2">
+                            {templates.map(template => (
+                                <li key={template.id} className={`flex items-start gap-2 p-2 rounded-md ${editingId === template.id ? 'bg-gray-600' : 'bg-gray-700'}`}>
+                                    <div className="flex-1 min-w-0">
+                                        <p className="font-medium text-gray-200">/{template.name}</p>
+                                        <p className="text-xs text-gray-400 truncate">{template.text}</p>
+                                    </div>
+                                    <button onClick={() => handleEdit(template)} className="p-1 text-gray-400 hover:text-white" title="Edit template">
+                                        <PencilIcon className="w-4 h-4" />
+                                    </button>
+                                    <button onClick={() => handleDelete(template)} className="p-1 text-gray-400 hover:text-red-400" title="Delete template">
+                                        <TrashIcon className="w-4 h-4" />
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    ) : (
+                        <p className="text-gray-400">No templates yet. Templates you save here can be inserted by typing / in the message box.</p>
+                    )}
+                    <div className="space-y-2 border-t border-gray-700 pt-4">
+                        <p className="font-medium text-gray-300">{editingId ? 'Edit template' : 'New template'}</p>
+                        <input
+                            value={name}
+                            onChange={e => setName(e.target.value)}
+                            placeholder="Name, e.g. summarize"
+                            className="w-full bg-gray-700 text-white p-2 rounded-md"
+                        />
+                        <textarea
+                            value={text}
+                            onChange={e => setText(e.target.value)}
+                            rows={5}
+                            placeholder="Summarize {{topic}} for {{audience}} in three bullet points."
+                            className="w-full bg-gray-700 text-white p-2 rounded-md resize-none"
+                        />
+                        <p className="text-xs text-gray-400">
+                            {variables.length > 0
+                                ? `Variables: ${variables.join(', ')}. You will be asked for their values when inserting the template.`
+                                : 'Write {{name}} for a part you want to fill in each time.'}
+                        </p>
+                    </div>
+                </div>
+                <div className="flex justify-end gap-2 p-4 border-t border-gray-700">
+                    {editingId && <button onClick={resetForm} className="px-4 py-2 rounded-md bg-gray-700 hover:bg-gray-600 text-sm">Cancel edit</button>}
+                    <button onClick={handleSave} disabled={!name.trim() || !text.trim()} className="px-4 py-2 rounded-md bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-sm font-semibold">
+                        {editingId ? 'Save changes' : 'Add template'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PromptTemplatesDialog;
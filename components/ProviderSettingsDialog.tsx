@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import type { ProviderKind, ProviderSettings } from '../services/providers/types';
+
+interface ProviderSettingsDialogProps {
+  settings: ProviderSettings;
+  onSave: (settings: ProviderSettings) => void;
+  onClose: () => void;
+}
+
+const PROVIDER_LABELS: Record<ProviderKind, string> = {
+  'gemini': 'Google Gemini',
+  'openai-compatible': 'OpenAI-compatible endpoint',
+};
+
+const ProviderSettingsDialog: React.FC<ProviderSettingsDialogProps> = ({ settings, onSave, onClose }) => {
+    const [draft, setDraft] = useState<ProviderSettings>(settings);
+
+    const update = (field: keyof ProviderSettings) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+        setDraft(prev => ({ ...prev, [field]: e.target.value }));
+    };
+
+    const isOpenAi = draft.kind === 'openai-compatible';
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50" onClick={onClose}>
+            <div className="bg-gray-800 rounded-lg shadow-xl w-full max-w-md p-6" onClick={e => e.stopPropagation()}>
+                <h2 className="text-lg font-semibold mb-4 text-blue-300">Model Provider</h2>
+                <div className="mb-4">
+                    <label className="block text-sm font-medium text-gray-300 mb-2">Backend</label>
+                    <select className="w-full bg-gray-700 text-white p-2 rounded-md" value={draft.kind} onChange={update('kind')}>
+                        {(Object.keys(PROVIDER_LABELS) as ProviderKind[]).map(kind => (
+                            <option key={kind} value={kind}>{PROVIDER_LABELS[kind]}</option>
+                        ))}
+                    </select>
+                </div>
+                {!isOpenAi && (
+                    <div className="space-y-3 mb-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-300 mb-1">Connection</label>
+                            <select className="w-full bg-gray-700 text-white p-2 rounded-md" value={draft.geminiConnection} onChange={update('geminiConnection')}>
+                                <option value="direct">Direct, with a key stored in this browser</option>
+                                <option value="proxy">Through the local proxy server</option>
+                            </select>
+                        </div>
+                        {draft.geminiConnection === 'direct' ? (
+                            <div>
+                                <label className="block text-sm font-medium text-gray-300 mb-1">Gemini API Key</label>
+                                <input type="password" className="w-full bg-gray-700 text-white p-2 rounded-md" value={draft.geminiApiKey} onChange={update('geminiApiKey')} />
+                                <p className="text-xs text-gray-400 mt-1">Stored only in this browser's local storage.</p>
+                            </div>
+                        ) : (
+                            <p className="text-xs text-gray-400">Start the proxy with <code>npm run proxy</code>; it reads <code>GEMINI_API_KEY</code> from <code>.env.local</code>.</p>
+                        )}
+                    </div>
+                )}
+                <div className="mb-4">
+                    <label className="block text-sm font-medium text-gray-300 mb-1">Proxy URL</label>
+                    <input className="w-full bg-gray-700 text-white p-2 rounded-md" value={draft.proxyUrl} onChange={update('proxyUrl')} />
+                    <p className="text-xs text-gray-400 mt-1">Also used by the <code>fetch_url</code> tool.</p>
+                </div>
+                {isOpenAi && (
+                    <div className="space-y-3 mb-4">
+                        {([
+                            ['baseUrl', 'Base URL'],
+                            ['apiKey', 'API Key (optional)'],
+                            ['chatModel', 'Chat model'],
+                            ['imageModel', 'Image model'],
+                            ['imageEditModel', 'Image edit model'],
+                        ] as [keyof ProviderSettings, string][]).map(([field, label]) => (
+                            <div key={field}>
+                                <label className="block text-sm font-medium text-gray-300 mb-1">{label}</label>
+                                <input
+                                    type={field === 'apiKey' ? 'password' : 'text'}
+                                    className="w-full bg-gray-700 text-white p-2 rounded-md"
+                                    value={draft[field]}
+                                    onChange={update(field)}
+                                />
+                            </div>
+                        ))}
+                        <p className="text-xs text-gray-400">Video generation and live audio are only available with the Gemini backend.</p>
+                    </div>
+                )}
+                <div className="flex justify-end gap-2">
+                    <button onClick={onClose} className="px-4 py-2 rounded-md bg-gray-700 hover:bg-gray-600 text-sm">Cancel</button>
+                    <button onClick={() => onSave(draft)} className="px-4 py-2 rounded-md bg-blue-600 hover:bg-blue-700 text-sm font-semibold">Save</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ProviderSettingsDialog;
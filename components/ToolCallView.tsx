@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { ToolCallRecord } from '../types';
+import { ChevronRightIcon, WrenchIcon } from './icons';
+
+interface ToolCallViewProps {
+  call: ToolCallRecord;
+  // Present while the call is waiting for the user to allow or deny it.
+  onConfirm?: (approved: boolean) => void;
+}
+
+const STATUS_LABELS: Record<ToolCallRecord['status'], [string, string]> = {
+  'awaiting-confirmation': ['Needs your approval', 'text-yellow-300'],
+  'running': ['Running…', 'text-blue-300'],
+  'succeeded': ['Done', 'text-green-400'],
+  'failed': ['Failed', 'text-red-400'],
+  'denied': ['Denied', 'text-gray-400'],
+};
+
+const ToolCallView: React.FC<ToolCallViewProps> = ({ call, onConfirm }) => {
+    const [isExpanded, setIsExpanded] = useState(call.status === 'awaiting-confirmation');
+    const [label, color] = STATUS_LABELS[call.status];
+
+    return (
+        <div className="mt-2 bg-gray-900/60 border border-gray-700 rounded-md text-sm">
+            <button onClick={() => setIsExpanded(expanded => !expanded)} className="w-full flex items-center gap-2 px-3 py-2 text-left">
+                <ChevronRightIcon className={`w-4 h-4 text-gray-400 transition-transform ${isExpanded ? 'rotate-90' : ''}`} />
+                <WrenchIcon className="w-4 h-4 text-gray-400" />
+                <span className="font-mono text-gray-200">{call.name}</span>
+                <span className={`ml-auto text-xs ${color}`}>{label}</span>
+            </button>
+            {isExpanded && (
+                <div className="px-3 pb-3 space-y-2">
+                    <div>
+                        <p className="text-xs text-gray-400 mb-1">Arguments</p>
+                        <pre className="bg-gray-800 rounded p-2 text-xs overflow-x-auto">{JSON.stringify(call.args, null, 2)}</pre>
+                    </div>
+                    {call.result && (
+                        <div>
+                            <p className="text-xs text-gray-400 mb-1">Response</p>
+                            <pre className="bg-gray-800 rounded p-2 text-xs overflow-x-auto max-h-48">{call.result}</pre>
+                        </div>
+                    )}
+                </div>
+            )}
+            {call.status === 'awaiting-confirmation' && onConfirm && (
+                <div className="flex items-center justify-end gap-2 px-3 pb-3">
+                    <span className="mr-auto text-xs text-yellow-300">This tool can change data outside the app.</span>
+                    <button onClick={() => onConfirm(false)} className="px-3 py-1 rounded-md bg-gray-700 hover:bg-gray-600 text-xs">Deny</button>
+                    <button onClick={() => onConfirm(true)} className="px-3 py-1 rounded-md bg-blue-600 hover:bg-blue-700 text-xs font-semibold">Allow</button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ToolCallView;
@@ -0,0 +1,203 @@
+import React, { useMemo, useState } from 'react';
+import {
+  clearUsageRecords, DEFAULT_PRICE_TABLE, formatCost, getPriceTable, getUsageBudget, listUsageRecords, ModelPrice, PriceTable,
+  setPriceTable, setUsageBudget, summarizeByDay, summarizeByModel, summarizeConversation, UsageTotals,
+} from '../services/usageTracker';
+import { XIcon } from './icons';
+
+interface UsageDashboardProps {
+  // The open conversation, for its own totals.
+  conversationId: string | null;
+  onClose: () => void;
+}
+
+const DAYS_SHOWN = 14;
+
+const PRICE_FIELDS: [keyof ModelPrice, string][] = [
+  ['inputPerMillion', 'Input / 1M'],
+  ['cachedInputPerMillion', 'Cached / 1M'],
+  ['outputPerMillion', 'Output / 1M'],
+  ['perImage', 'Per image'],
+  ['perVideo', 'Per video'],
+];
+
+const TotalsRow: React.FC<{ label: string; totals: UsageTotals }> = ({ label, totals }) => (
+    <tr className="border-t border-gray-700">
+        <td className="py-1 pr-3 text-gray-300 whitespace-nowrap">{label}</td>
+        <td className="py-1 px-2 text-right">{totals.usage.promptTokens.toLocaleString()}</td>
+        <td className="py-1 px-2 text-right">{totals.usage.cachedTokens.toLocaleString()}</td>
+        <td className="py-1 px-2 text-right">{totals.usage.responseTokens.toLocaleString()}</td>
+        <td className="py-1 px-2 text-right">{totals.usage.thinkingTokens.toLocaleString()}</td>
+        <td className="py-1 px-2 text-right">{totals.images}</td>
+        <td className="py-1 px-2 text-right">{totals.videos}</td>
+        <td className="py-1 pl-2 text-right font-semibold">{formatCost(totals.cost)}</td>
+    </tr>
+);
+
+const TotalsTable: React.FC<{ firstColumn: string; rows: [string, UsageTotals][] }> = ({ firstColumn, rows }) => (
+    <table className="w-full text-xs">
+        <thead className="text-gray-400">
+            <tr>
+                <th className="text-left font-medium pb-1">{firstColumn}</th>
+                <th className="text-right font-medium pb-1 px-2">Prompt</th>
+                <th className="text-right font-medium pb-1 px-2">Cached</th>
+                <th className="text-right font-medium pb-1 px-2">Response</th>
+                <th className="text-right font-medium pb-1 px-2">Thinking</th>
+                <th className="text-right font-medium pb-1 px-2">Images</th>
+                <th className="text-right font-medium pb-1 px-2">Videos</th>
+                <th className="text-right font-medium pb-1 pl-2">Est. cost</th>
+            </tr>
+        </thead>
+        <tbody>
+            {rows.map(([label, totals]) => <TotalsRow key={label} label={label} totals={totals} />)}
+        </tbody>
+    </table>
+);
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ conversationId, onClose }) => {
+    const [prices, setPrices] = useState<PriceTable>(getPriceTable);
+    const [dailyLimit, setDailyLimit] = useState(getUsageBudget().dailyLimit?.toString() ?? '');
+    const [records, setRecords] = useState(listUsageRecords);
+    const [newModel, setNewModel] = useState('');
+
+    const days = useMemo(() => summarizeByDay(records, prices), [records, prices]);
+    const models = useMemo(() => summarizeByModel(records, prices), [records, prices]);
+    const conversation = useMemo(() => conversationId ? summarizeConversation(conversationId, records, prices) : undefined, [conversationId, records, prices]);
+    const today = days.find(([day]) => day === new Date().toLocaleDateString('en-CA'))?.[1].cost ?? 0;
+    const limit = parseFloat(dailyLimit);
+    const hasLimit = Number.isFinite(limit) && limit > 0;
+
+    const updatePrice = (model: string, field: keyof ModelPrice) => (e: React.ChangeEvent<HTMLInputElement>) => {
+        const value = e.target.value;
+        setPrices(prev => ({ ...prev, [model]: { ...prev[model], [field]: value === '' ? undefined : Number(value) } }));
+    };
+
+    const handleAddModel = () => {
+        const model = newModel.trim();
+        if (!model || prices[model]) return;
+        setPrices(prev => ({ ...prev, [model]: {} }));
+        setNewModel('');
+    };
+
+    const handleSave = () => {
+        setPriceTable(prices);
+        setUsageBudget(hasLimit ? { dailyLimit: limit } : {});
+        onClose();
+    };
+
+    const handleClear = () => {
+        if (!window.confirm('Delete the recorded usage history? Per-message token counts are kept.')) return;
+        clearUsageRecords();
+        setRecords([]);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50" onClick={onClose}>
+            <div className="bg-gray-800 rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <div className="flex items-center justify-between p-4 border-b border-gray-700">
+                    <h2 className="text-lg font-semibold text-blue-300">Usage and cost</h2>
+                    <button onClick={onClose} className="text-gray-400 hover:text-white" title="Close">
+                        <XIcon className="w-5 h-5" />
+                    </button>
+                </div>
+                <div className="flex-1 overflow-y-auto p-4 space-y-6 text-sm">
+                    <section className="flex flex-wrap items-end gap-4">
+                        <div>
+                            <p className="text-gray-400 text-xs">Today</p>
+                            <p className={`text-2xl font-semibold ${hasLimit && today >= limit ? 'text-red-400' : ''}`}>{formatCost(today)}</p>
+                        </div>
+                        <div>
+                            <label className="block text-gray-400 text-xs mb-1">Daily budget (USD, optional)</label>
+                            <input
+                                type="number"
+                                min={0}
+                                step={0.5}
+                                value={dailyLimit}
+                                onChange={e => setDailyLimit(e.target.value)}
+                                className="w-32 bg-gray-700 text-white p-2 rounded-md"
+                            />
+                        </div>
+                        {hasLimit && (
+                            <p className="text-xs text-gray-400 pb-2">
+                                {today >= limit ? 'Budget reached: you will be asked before each message.' : `${formatCost(limit - today)} left today.`}
+                            </p>
+                        )}
+                    </section>
+
+                    {conversation && (
+                        <section>
+                            <h3 className="font-medium text-gray-300 mb-2">This conversation</h3>
+                            <TotalsTable firstColumn="" rows={[['Total', conversation]]} />
+                        </section>
+                    )}
+
+                    <section>
+                        <h3 className="font-medium text-gray-300 mb-2">Daily totals</h3>
+                        {days.length > 0
+                            ? <TotalsTable firstColumn="Day" rows={days.slice(0, DAYS_SHOWN)} />
+                            : <p className="text-gray-400 text-xs">Nothing recorded yet.</p>}
+                    </section>
+
+                    {models.length > 0 && (
+                        <section>
+                            <h3 className="font-medium text-gray-300 mb-2">By model (last 90 days)</h3>
+                            <TotalsTable firstColumn="Model" rows={models} />
+                        </section>
+                    )}
+
+                    <section>
+                        <h3 className="font-medium text-gray-300 mb-1">Prices (USD)</h3>
+                        <p className="text-xs text-gray-400 mb-2">Estimates use these prices; thinking tokens are charged at the output price. Models without a price count as free.</p>
+                        <table className="w-full text-xs">
+                            <thead className="text-gray-400">
+                                <tr>
+                                    <th className="text-left font-medium pb-1">Model</th>
+                                    {PRICE_FIELDS.map(([field, label]) => <th key={field} className="text-right font-medium pb-1 px-1">{label}</th>)}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {Object.entries(prices).map(([model, price]) => (
+                                    <tr key={model} className="border-t border-gray-700">
+                                        <td className="py-1 pr-2 text-gray-300 break-all">{model}</td>
+                                        {PRICE_FIELDS.map(([field]) => (
+                                            <td key={field} className="py-1 px-1">
+                                                <input
+                                                    type="number"
+                                                    min={0}
+                                                    step="any"
+                                                    value={price[field] ?? ''}
+                                                    onChange={updatePrice(model, field)}
+                                                    className="w-20 bg-gray-700 text-white p-1 rounded text-right"
+                                                />
+                                            </td>
+                                        ))}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        <div className="flex gap-2 mt-2">
+                            <input
+                                value={newModel}
+                                onChange={e => setNewModel(e.target.value)}
+                                onKeyDown={e => e.key === 'Enter' && handleAddModel()}
+                                placeholder="Add a model id"
+                                className="flex-1 bg-gray-700 text-white p-2 rounded-md"
+                            />
+                            <button onClick={handleAddModel} className="px-3 py-1 rounded-md bg-gray-700 hover:bg-gray-600">Add</button>
+                            <button onClick={() => setPrices(DEFAULT_PRICE_TABLE)} className="px-3 py-1 rounded-md bg-gray-700 hover:bg-gray-600">Reset prices</button>
+                        </div>
+                    </section>
+                </div>
+                <div className="flex justify-between gap-2 p-4 border-t border-gray-700">
+                    <button onClick={handleClear} className="px-4 py-2 rounded-md bg-gray-700 hover:bg-red-700 text-sm">Clear history</button>
+                    <div className="flex gap-2">
+                        <button onClick={onClose} className="px-4 py-2 rounded-md bg-gray-700 hover:bg-gray-600 text-sm">Cancel</button>
+                        <button onClick={handleSave} className="px-4 py-2 rounded-md bg-blue-600 hover:bg-blue-700 text-sm font-semibold">Save</button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default UsageDashboard;
@@ -0,0 +1,300 @@
+// Local proxy that keeps the Gemini API key on the server.
+// The app talks to it in "proxy" mode: SDK requests (including the Live WebSocket) and video downloads
+// are forwarded to Google with the key attached, and `/proxy` lets chat tools fetch cross-origin pages.
+//
+// Usage: GEMINI_API_KEY=... node server/proxy.mjs   (or put the key in .env.local)
+
+import dns from 'node:dns';
+import http from 'node:http';
+import https from 'node:https';
+import net from 'node:net';
+import tls from 'node:tls';
+import { Readable } from 'node:stream';
+
+try {
+  process.loadEnvFile?.('.env.local');
+} catch {
+  // No .env.local; the key must come from the environment.
+}
+
+const API_KEY = process.env.GEMINI_API_KEY;
+const PORT = Number(process.env.PROXY_PORT ?? 8787);
+// Only this machine can reach the proxy; it holds a billed key and must not be exposed to the network.
+const HOST = '127.0.0.1';
+// Origins allowed to call the proxy, comma separated. Defaults to the Vite dev server.
+const ALLOWED_ORIGINS = (process.env.PROXY_ALLOWED_ORIGINS ?? 'http://localhost:3000').split(',').map(origin => origin.trim());
+const GEMINI_HOST = 'generativelanguage.googleapis.com';
+const GEMINI_PREFIX = '/api/gemini';
+// Headers the SDK sends that are safe to pass through; everything else, including its placeholder key, is dropped.
+const FORWARDED_HEADERS = ['content-type', 'x-goog-api-client', 'x-goog-upload-protocol', 'x-goog-upload-command', 'x-goog-upload-offset', 'x-goog-upload-header-content-length', 'x-goog-upload-header-content-type'];
+
+if (!API_KEY) {
+  console.error('GEMINI_API_KEY is not set. Add it to .env.local or the environment.');
+  process.exit(1);
+}
+
+// The app always sends an Origin (every call is a cross-origin fetch or WebSocket), so requests without one,
+// such as curl or other local programs, are refused.
+const isAllowedOrigin = (origin) => Boolean(origin) && (ALLOWED_ORIGINS.includes('*') || ALLOWED_ORIGINS.includes(origin));
+
+const setCorsHeaders = (req, res) => {
+  if (req.headers.origin && isAllowedOrigin(req.headers.origin)) {
+    res.setHeader('Access-Control-Allow-Origin', req.headers.origin);
+    res.setHeader('Vary', 'Origin');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PATCH, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', req.headers['access-control-request-headers'] ?? '*');
+    res.setHeader('Access-Control-Expose-Headers', '*');
+  }
+};
+
+const sendError = (res, status, message) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ error: { code: status, message } }));
+};
+
+const CONTENT_HEADERS = ['content-type', 'content-length', 'content-disposition', 'x-goog-upload-url', 'x-goog-upload-status'];
+
+// Streams an upstream fetch response back to the client, keeping only content headers.
+const pipeResponse = async (upstream, res) => {
+  const headers = {};
+  for (const name of CONTENT_HEADERS) {
+    const value = upstream.headers.get(name);
+    if (value) headers[name] = value;
+  }
+  res.writeHead(upstream.status, headers);
+  if (upstream.body) {
+    Readable.fromWeb(upstream.body).pipe(res);
+  } else {
+    res.end();
+  }
+};
+
+const withoutKeyParam = (searchParams) => {
+  const params = new URLSearchParams(searchParams);
+  params.delete('key');
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
+
+const forwardToGemini = async (req, res, url) => {
+  const headers = { 'x-goog-api-key': API_KEY };
+  for (const name of FORWARDED_HEADERS) {
+    if (req.headers[name]) headers[name] = req.headers[name];
+  }
+  const hasBody = req.method !== 'GET' && req.method !== 'HEAD';
+  const upstream = await fetch(`https://${GEMINI_HOST}${url.pathname.slice(GEMINI_PREFIX.length)}${withoutKeyParam(url.searchParams)}`, {
+    method: req.method,
+    headers,
+    body: hasBody ? Readable.toWeb(req) : undefined,
+    duplex: hasBody ? 'half' : undefined,
+  });
+  await pipeResponse(upstream, res);
+};
+
+// Generated videos are served from the Files API, which needs the key; only Gemini file URIs are accepted.
+const downloadVideo = async (res, url) => {
+  const uri = url.searchParams.get('uri');
+  if (!uri || new URL(uri).hostname !== GEMINI_HOST) {
+    sendError(res, 400, 'Expected a Gemini file URI in "uri".');
+    return;
+  }
+  await pipeResponse(await fetch(uri, { headers: { 'x-goog-api-key': API_KEY } }), res);
+};
+
+// Loopback, private, link-local, shared, multicast and reserved ranges. BlockList checks IPv4-mapped IPv6 addresses
+// (`::ffff:127.0.0.1`) against the IPv4 ranges itself; IPv4-compatible, NAT64 and 6to4 addresses are blocked outright
+// because they can wrap any IPv4 address.
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [address, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 3],
+]) {
+  BLOCKED_ADDRESSES.addSubnet(address, prefix, 'ipv4');
+}
+for (const [address, prefix] of [
+  ['::', 96], ['64:ff9b::', 96], ['100::', 64], ['2001:db8::', 32], ['2002::', 16], ['fc00::', 7], ['fe80::', 10], ['fec0::', 10], ['ff00::', 8],
+]) {
+  BLOCKED_ADDRESSES.addSubnet(address, prefix, 'ipv6');
+}
+
+const PRIVATE_ADDRESS = 'EPRIVATEADDRESS';
+const MAX_REDIRECTS = 5;
+// The model picks the URLs, so a fetch is cut off after this long (all hops and the body together) and this many bytes.
+const TOOL_FETCH_TIMEOUT_MS = 15_000;
+const MAX_TOOL_FETCH_BYTES = 1024 * 1024;
+
+const isBlockedAddress = (address) => BLOCKED_ADDRESSES.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+
+const privateAddressError = (hostname) => Object.assign(new Error(`${hostname} is a private network address.`), { code: PRIVATE_ADDRESS });
+
+// Used as the socket's `lookup`, so the address that is checked is the one that is connected to
+// and a second DNS answer cannot swap in a private address after the check.
+const publicLookup = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error);
+    } else if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+      callback(privateAddressError(hostname));
+    } else if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+// Sockets skip `lookup` for IP literals, so those are checked here. The URL parser has already normalized
+// decimal, octal and hex IPv4 forms to dotted quads.
+const checkToolTarget = (target) => {
+  if (target.protocol !== 'http:' && target.protocol !== 'https:') return 'Only http and https URLs can be fetched.';
+  const hostname = target.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(hostname) && isBlockedAddress(hostname)) return 'Private network addresses cannot be fetched.';
+  return undefined;
+};
+
+const requestPublicUrl = (target, signal) => new Promise((resolve, reject) => {
+  const client = target.protocol === 'https:' ? https : http;
+  client.get(target, { headers: { 'User-Agent': 'tamur-ai-proxy' }, lookup: publicLookup, signal }, resolve).on('error', reject);
+});
+
+// Copies at most MAX_TOOL_FETCH_BYTES of the body and then ends the response, so the client keeps what arrived.
+// A timeout part-way through the body ends the response the same way.
+const pipeCapped = (upstream, res) => {
+  let sent = 0;
+  upstream.on('data', chunk => {
+    const remaining = MAX_TOOL_FETCH_BYTES - sent;
+    if (chunk.length >= remaining) {
+      res.end(chunk.subarray(0, remaining));
+      upstream.destroy();
+      return;
+    }
+    sent += chunk.length;
+    if (!res.write(chunk)) {
+      upstream.pause();
+      res.once('drain', () => upstream.resume());
+    }
+  });
+  upstream.on('error', () => {});
+  upstream.on('close', () => {
+    if (!res.writableEnded) res.end();
+  });
+};
+
+// Backs the chat `fetch_url` tool. Redirects are followed by hand so every hop is checked, and requests
+// that reach a private network address, directly or through DNS, are refused.
+const fetchForTool = async (res, url) => {
+  const signal = AbortSignal.timeout(TOOL_FETCH_TIMEOUT_MS);
+  let target;
+  try {
+    target = new URL(url.searchParams.get('url') ?? '');
+  } catch {
+    sendError(res, 400, 'Expected an absolute URL in "url".');
+    return;
+  }
+  for (let redirects = 0; ; redirects++) {
+    const refusal = checkToolTarget(target);
+    if (refusal) {
+      sendError(res, 403, refusal);
+      return;
+    }
+    let upstream;
+    try {
+      upstream = await requestPublicUrl(target, signal);
+    } catch (error) {
+      if (signal.aborted) {
+        sendError(res, 504, 'The page took too long to respond.');
+        return;
+      }
+      if (error.code !== PRIVATE_ADDRESS) throw error;
+      sendError(res, 403, 'Private network addresses cannot be fetched.');
+      return;
+    }
+    const location = upstream.headers.location;
+    if (upstream.statusCode >= 300 && upstream.statusCode < 400 && location) {
+      upstream.resume();
+      if (redirects === MAX_REDIRECTS) {
+        sendError(res, 502, 'Too many redirects.');
+        return;
+      }
+      target = new URL(location, target);
+      continue;
+    }
+    // No `content-length`: the body may be cut short.
+    const headers = {};
+    for (const name of CONTENT_HEADERS) {
+      if (name !== 'content-length' && upstream.headers[name]) headers[name] = upstream.headers[name];
+    }
+    res.writeHead(upstream.statusCode ?? 502, headers);
+    pipeCapped(upstream, res);
+    return;
+  }
+};
+
+const server = http.createServer(async (req, res) => {
+  setCorsHeaders(req, res);
+  if (!isAllowedOrigin(req.headers.origin)) {
+    sendError(res, 403, 'Origin not allowed.');
+    return;
+  }
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+  const url = new URL(req.url ?? '/', `http://${req.headers.host}`);
+  try {
+    if (url.pathname.startsWith(`${GEMINI_PREFIX}/`)) {
+      await forwardToGemini(req, res, url);
+    } else if (url.pathname === '/api/video') {
+      await downloadVideo(res, url);
+    } else if (url.pathname === '/proxy') {
+      await fetchForTool(res, url);
+    } else {
+      sendError(res, 404, 'Not found.');
+    }
+  } catch (error) {
+    console.error(`${req.method} ${url.pathname} failed:`, error);
+    if (!res.headersSent) {
+      sendError(res, 502, 'The upstream request failed.');
+    } else {
+      res.destroy();
+    }
+  }
+});
+
+// The Live API is a WebSocket. The upgrade request is replayed to Google with the real key
+// and the two sockets are then piped together without inspecting the frames.
+server.on('upgrade', (req, socket, head) => {
+  const url = new URL(req.url ?? '/', `http://${req.headers.host}`);
+  if (!url.pathname.startsWith(`${GEMINI_PREFIX}/`) || !isAllowedOrigin(req.headers.origin)) {
+    socket.end('HTTP/1.1 403 Forbidden\r\n\r\n');
+    return;
+  }
+  const params = new URLSearchParams(url.searchParams);
+  params.set('key', API_KEY);
+  const upstream = tls.connect(443, GEMINI_HOST, { servername: GEMINI_HOST }, () => {
+    const lines = [
+      `GET ${url.pathname.slice(GEMINI_PREFIX.length)}?${params} HTTP/1.1`,
+      `Host: ${GEMINI_HOST}`,
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+    ];
+    for (const name of ['sec-websocket-key', 'sec-websocket-version', 'sec-websocket-extensions', 'sec-websocket-protocol']) {
+      if (req.headers[name]) lines.push(`${name}: ${req.headers[name]}`);
+    }
+    upstream.write(`${lines.join('\r\n')}\r\n\r\n`);
+    if (head.length > 0) upstream.write(head);
+    upstream.pipe(socket);
+    socket.pipe(upstream);
+  });
+  const close = () => {
+    upstream.destroy();
+    socket.destroy();
+  };
+  upstream.on('error', close);
+  socket.on('error', close);
+});
+
+server.listen(PORT, HOST, () => {
+  console.log(`Gemini proxy listening on http://${HOST}:${PORT} (allowed origins: ${ALLOWED_ORIGINS.join(', ')})`);
+});
@@ -0,0 +1,154 @@
+import { AiErrorKind } from '../types';
+
+// Turns failures from any model backend into a small set of typed errors with a user-facing message,
+// and retries the transient ones (network failures, rate limits) with exponential backoff.
+
+export const ERROR_KIND_LABELS: Record<AiErrorKind, string> = {
+  'auth': 'Authentication',
+  'quota': 'Rate limited',
+  'safety': 'Blocked',
+  'network': 'Connection',
+  'invalid-input': 'Invalid request',
+  'unknown': 'Error',
+};
+
+export class AiServiceError extends Error {
+  kind: AiErrorKind;
+  status?: number;
+  // How long the backend asked us to wait before trying again.
+  retryAfterMs?: number;
+
+  constructor(kind: AiErrorKind, message: string, details: { status?: number; retryAfterMs?: number } = {}) {
+    super(message);
+    this.name = 'AiServiceError';
+    this.kind = kind;
+    this.status = details.status;
+    this.retryAfterMs = details.retryAfterMs;
+  }
+}
+
+const MAX_ATTEMPTS = 3;
+const BASE_RETRY_DELAY_MS = 1000;
+// Waits longer than this are reported to the user instead of being slept through.
+const MAX_RETRY_DELAY_MS = 20_000;
+
+// Error bodies from Google APIs are JSON like `{"error":{"code":429,"message":"…","status":"RESOURCE_EXHAUSTED"}}`,
+// embedded in the SDK's error message after the HTTP status line.
+const parseApiErrorBody = (text: string): { message?: string; status?: string; retryDelay?: string } => {
+  const start = text.indexOf('{');
+  if (start < 0) return {};
+  try {
+    const error = JSON.parse(text.slice(start)).error ?? {};
+    const retryInfo = (error.details ?? []).find((detail: { retryDelay?: string }) => detail.retryDelay);
+    return { message: error.message, status: error.status, retryDelay: retryInfo?.retryDelay };
+  } catch {
+    return {};
+  }
+};
+
+// Accepts Google's `"31s"` durations as well as HTTP `Retry-After` values in seconds.
+export const parseRetryAfter = (value: string | null | undefined): number | undefined => {
+  const seconds = value ? parseFloat(value) : NaN;
+  return Number.isFinite(seconds) ? Math.ceil(seconds * 1000) : undefined;
+};
+
+const describe = (kind: AiErrorKind, detail: string, retryAfterMs?: number): string => {
+  switch (kind) {
+    case 'auth':
+      return 'The API key was rejected or does not have access to this model. Check it in the provider settings.';
+    case 'quota':
+      return retryAfterMs
+        ? `Rate limit or quota exceeded. Try again in ${Math.ceil(retryAfterMs / 1000)} seconds.`
+        : 'Rate limit or quota exceeded. Wait a moment and try again.';
+    case 'safety':
+      return 'The request was blocked by the safety filters. Try rephrasing it.';
+    case 'network':
+      return 'Could not reach the model service. Check your connection, and the local proxy if you use one.';
+    case 'invalid-input':
+      return detail ? `The request was rejected: ${detail}` : 'The request was rejected as invalid.';
+    default:
+      return detail || 'Something went wrong. Please try again.';
+  }
+};
+
+const kindFromStatus = (status: number, apiStatus: string | undefined, text: string): AiErrorKind => {
+  if (status === 401 || status === 403 || apiStatus === 'PERMISSION_DENIED' || apiStatus === 'UNAUTHENTICATED') return 'auth';
+  if (status === 429 || apiStatus === 'RESOURCE_EXHAUSTED') return 'quota';
+  if (status === 408 || status >= 500) return 'network';
+  // Gemini rejects bad keys with a 400, and Veo reports keys without access to the model as a missing entity.
+  if ((status === 400 && /API[_ ]KEY/i.test(text)) || (status === 404 && text.includes('Requested entity was not found'))) return 'auth';
+  if (/safety|blocked/i.test(text)) return 'safety';
+  if (status >= 400) return 'invalid-input';
+  return 'unknown';
+};
+
+// Builds a typed error from an HTTP response, for backends that call `fetch` themselves.
+export const createHttpError = (status: number, body: string, retryAfter?: string | null): AiServiceError => {
+  const parsed = parseApiErrorBody(body);
+  const detail = parsed.message ?? body.trim().slice(0, 300);
+  const kind = kindFromStatus(status, parsed.status, body);
+  const retryAfterMs = parseRetryAfter(retryAfter ?? parsed.retryDelay);
+  return new AiServiceError(kind, describe(kind, detail, retryAfterMs), { status, retryAfterMs });
+};
+
+export const classifyError = (error: unknown): AiServiceError => {
+  if (error instanceof AiServiceError) return error;
+  const text = error instanceof Error ? error.message : String(error ?? '');
+
+  // The Gemini SDK throws `ApiError`s that carry the HTTP status.
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') {
+    return createHttpError(status, text);
+  }
+  const leadingStatus = text.match(/\b(?:status:?|failed with)\s*(\d{3})\b/i);
+  if (leadingStatus) {
+    return createHttpError(Number(leadingStatus[1]), text);
+  }
+  // WebSocket failures (live audio) are reported as bare `Event`s without any detail.
+  if (error instanceof TypeError || error instanceof Event || /failed to fetch|networkerror|load failed|fetch failed|websocket/i.test(text)) {
+    return new AiServiceError('network', describe('network', text));
+  }
+  if (/safety|blocked/i.test(text)) {
+    return new AiServiceError('safety', describe('safety', text));
+  }
+  if (text.includes('Requested entity was not found') || /API[_ ]KEY/i.test(text)) {
+    return new AiServiceError('auth', describe('auth', text));
+  }
+  return new AiServiceError('unknown', describe('unknown', text));
+};
+
+export const isRetryable = (error: AiServiceError) => error.kind === 'network' || error.kind === 'quota';
+
+// For billed, non-idempotent jobs (images, videos). A rate limit means the request was refused before any work started;
+// after a server error, timeout or dropped connection the job may already be running, so the user decides whether to retry.
+export const isRetryableGeneration = (error: AiServiceError) => error.kind === 'quota';
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  }, { once: true });
+});
+
+// Runs `operation` until it succeeds, fails with an error `shouldRetry` rejects or runs out of attempts.
+// Failures are rethrown as `AiServiceError`s; aborting the signal stops waiting and rethrows the abort.
+export const withRetry = async <T>(
+  operation: () => Promise<T>,
+  signal?: AbortSignal,
+  shouldRetry: (error: AiServiceError) => boolean = isRetryable,
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      const classified = classifyError(error);
+      const delayMs = classified.retryAfterMs ?? BASE_RETRY_DELAY_MS * 2 ** (attempt - 1) * (1 + Math.random() * 0.25);
+      if (!shouldRetry(classified) || attempt >= MAX_ATTEMPTS || delayMs > MAX_RETRY_DELAY_MS) throw classified;
+      console.warn(`Retrying after ${classified.kind} error (attempt ${attempt} of ${MAX_ATTEMPTS}).`, error);
+      await sleep(delayMs, signal);
+    }
+  }
+};
@@ -0,0 +1,77 @@
+import { ConversationSettings } from '../types';
+
+// Reusable conversation settings. The built-in presets leave the model unset so they work with any provider;
+// presets the user saves are kept locally.
+
+export interface ChatPreset {
+  id: string;
+  name: string;
+  settings: ConversationSettings;
+  builtIn?: boolean;
+}
+
+const PRESETS_KEY = 'tamur-ai:chat-presets';
+
+export const DEFAULT_CONVERSATION_SETTINGS: ConversationSettings = {
+  model: '',
+  systemPrompt: '',
+  searchEnabled: true,
+};
+
+export const BUILTIN_PRESETS: ChatPreset[] = [
+  {
+    id: 'research',
+    name: 'Research',
+    builtIn: true,
+    settings: {
+      ...DEFAULT_CONVERSATION_SETTINGS,
+      systemPrompt: 'You are a careful research assistant. Look up current information, cite your sources, point out where sources disagree or evidence is thin, and end with a short summary.',
+      temperature: 0.3,
+      searchEnabled: true,
+    },
+  },
+  {
+    id: 'coding',
+    name: 'Coding',
+    builtIn: true,
+    settings: {
+      ...DEFAULT_CONVERSATION_SETTINGS,
+      systemPrompt: 'You are an expert software engineer. Answer with working, idiomatic code in fenced blocks tagged with their language, explain only what is not obvious, and call out edge cases and risks.',
+      temperature: 0.2,
+      searchEnabled: false,
+    },
+  },
+  {
+    id: 'concise',
+    name: 'Concise',
+    builtIn: true,
+    settings: {
+      ...DEFAULT_CONVERSATION_SETTINGS,
+      systemPrompt: 'Answer as briefly as possible. Lead with the answer, use at most a few sentences or bullet points, and skip any preamble.',
+      maxOutputTokens: 1024,
+      thinkingBudget: 0,
+      searchEnabled: true,
+    },
+  },
+];
+
+const readSavedPresets = (): ChatPreset[] => {
+  try {
+    return JSON.parse(localStorage.getItem(PRESETS_KEY) ?? '[]');
+  } catch (error) {
+    console.warn("Could not read chat presets.", error);
+    return [];
+  }
+};
+
+export const listPresets = (): ChatPreset[] => [...BUILTIN_PRESETS, ...readSavedPresets()];
+
+export const savePreset = (name: string, settings: ConversationSettings): ChatPreset => {
+  const preset: ChatPreset = { id: `preset-${Date.now()}`, name, settings };
+  localStorage.setItem(PRESETS_KEY, JSON.stringify([...readSavedPresets(), preset]));
+  return preset;
+};
+
+export const deletePreset = (id: string) => {
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(readSavedPresets().filter(preset => preset.id !== id)));
+};
@@ -0,0 +1,194 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { ChatMessage, ChatMessageRole, Conversation, Media } from '../types';
+import { insertCitationMarkers } from '../utils/citations';
+import { blobToDataUrl } from '../utils/mediaHelpers';
+import MarkdownRenderer from '../components/MarkdownRenderer';
+import { createConversationId } from './conversationStore';
+
+export type ExportFormat = 'markdown' | 'html' | 'json';
+
+const EXPORT_FORMAT_ID = 'tamur-conversation';
+const EXPORT_FORMAT_VERSION = 1;
+
+interface ConversationExport {
+  format: typeof EXPORT_FORMAT_ID;
+  version: number;
+  exportedAt: string;
+  conversation: Conversation;
+}
+
+const roleLabel = (message: ChatMessage) => message.role === ChatMessageRole.USER ? 'You' : 'Tamur AI';
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const mediaLabel = (media: Media) => media.name || media.prompt || media.type;
+
+// Resolves blob: and keyed remote URLs into data URLs so exported files do not depend on the current session.
+// Media that cannot be fetched (e.g. expired links) keeps its original URL.
+const inlineMedia = async (media: Media): Promise<Media> => {
+  if (media.url.startsWith('data:')) return media;
+  if (media.base64Data && media.mimeType) {
+    return { ...media, url: `data:${media.mimeType};base64,${media.base64Data}` };
+  }
+  try {
+    const response = await fetch(media.url);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const blob = await response.blob();
+    const url = await blobToDataUrl(blob);
+    return { ...media, url, mimeType: media.mimeType ?? blob.type, base64Data: url.split(',')[1] };
+  } catch (error) {
+    console.warn(`Could not embed ${media.type} from ${media.url}:`, error);
+    return media;
+  }
+};
+
+const inlineConversationMedia = async (conversation: Conversation): Promise<Conversation> => ({
+  ...conversation,
+  messages: await Promise.all(conversation.messages.map(async message => ({
+    ...message,
+    media: message.media && await Promise.all(message.media.map(inlineMedia)),
+    versions: message.versions && await Promise.all(message.versions.map(async version => ({
+      ...version,
+      media: version.media && await Promise.all(version.media.map(inlineMedia)),
+    }))),
+  }))),
+});
+
+export const exportConversationToMarkdown = (conversation: Conversation): string => {
+  const lines = [`# ${conversation.title}`, '', `_Exported from Tamur AI on ${new Date().toLocaleString()}_`, ''];
+  for (const message of conversation.messages) {
+    lines.push(`### ${roleLabel(message)}`, '');
+    if (message.text) {
+      lines.push(insertCitationMarkers(message.text, message.citations ?? []), '');
+    }
+    for (const media of message.media ?? []) {
+      // Embedded data would bloat the document, so only remote media is linked.
+      const isRemote = /^https?:/.test(media.url);
+      if (media.type === 'image' && isRemote) {
+        lines.push(`![${mediaLabel(media)}](${media.url})`, '');
+      } else if (isRemote) {
+        lines.push(`[${media.type}: ${mediaLabel(media)}](${media.url})`, '');
+      } else {
+        lines.push(`_[${media.type}: ${mediaLabel(media)}]_`, '');
+      }
+    }
+    if (message.sources && message.sources.length > 0) {
+      lines.push('**Sources**', '');
+      message.sources.forEach(source => lines.push(`- [${source.id}] [${source.title}](${source.url})`));
+      lines.push('');
+    }
+  }
+  return lines.join('\n');
+};
+
+const renderMediaHtml = (media: Media): string => {
+  const url = escapeHtml(media.url);
+  const label = escapeHtml(mediaLabel(media));
+  const caption = media.prompt ? `<figcaption>Prompt: "${escapeHtml(media.prompt)}"</figcaption>` : '';
+  switch (media.type) {
+    case 'image':
+      return `<figure><img src="${url}" alt="${label}" />${caption}</figure>`;
+    case 'video':
+      return `<figure><video src="${url}" controls></video>${caption}</figure>`;
+    case 'audio':
+      return `<figure><audio src="${url}" controls></audio>${caption}</figure>`;
+    default:
+      return `<p><a href="${url}" download="${label}">${label}</a></p>`;
+  }
+};
+
+const renderMessageHtml = (message: ChatMessage): string => {
+  // Citation markers become direct links to their sources, since the exported page has no sources panel.
+  const text = insertCitationMarkers(message.text, message.citations ?? [])
+    .replace(/\[(S\d+)\](?!\()/g, (marker, id) => {
+      const source = message.sources?.find(s => s.id === id);
+      return source ? `[${id}](${source.url})` : marker;
+    });
+  const body = renderToStaticMarkup(React.createElement(MarkdownRenderer, { text, onSourceClick: () => {} }));
+  const media = (message.media ?? []).map(renderMediaHtml).join('');
+  const sources = message.sources && message.sources.length > 0
+    ? `<ol class="sources">${message.sources.map(s => `<li><a href="${escapeHtml(s.url)}">${escapeHtml(s.title)}</a> <span>${escapeHtml(s.domain)}</span></li>`).join('')}</ol>`
+    : '';
+  return `<section class="message ${message.role}"><h3>${roleLabel(message)}</h3>${body}${media}${sources}</section>`;
+};
+
+const HTML_STYLES = `
+body { font-family: system-ui, sans-serif; max-width: 860px; margin: 2rem auto; padding: 0 1rem; color: #111827; line-height: 1.6; }
+.message { padding: 1rem; border-radius: 8px; margin-bottom: 1rem; }
+.message.model { background: #f3f4f6; }
+.message h3 { margin-top: 0; font-size: 0.9rem; color: #4b5563; }
+img, video { max-width: 100%; border-radius: 6px; }
+audio { width: 100%; }
+figcaption { font-size: 0.8rem; color: #6b7280; font-style: italic; }
+pre { background: #111827; color: #f9fafb; padding: 1rem; border-radius: 6px; overflow-x: auto; }
+table { border-collapse: collapse; } th, td { border: 1px solid #d1d5db; padding: 0.25rem 0.5rem; }
+.sources { font-size: 0.85rem; } .sources span { color: #6b7280; }
+`;
+
+export const exportConversationToHtml = async (conversation: Conversation): Promise<string> => {
+  const inlined = await inlineConversationMedia(conversation);
+  const title = escapeHtml(conversation.title);
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>${title}</title>
+<link rel="stylesheet" href="https://cdn.jsdelivr.net/npm/katex@0.16.22/dist/katex.min.css" />
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<h1>${title}</h1>
+<p><em>Exported from Tamur AI on ${escapeHtml(new Date().toLocaleString())}</em></p>
+${inlined.messages.map(renderMessageHtml).join('\n')}
+</body>
+</html>`;
+};
+
+export const exportConversationToJson = async (conversation: Conversation): Promise<string> => {
+  const payload: ConversationExport = {
+    format: EXPORT_FORMAT_ID,
+    version: EXPORT_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversation: await inlineConversationMedia(conversation),
+  };
+  return JSON.stringify(payload, null, 2);
+};
+
+// Parses a JSON export back into a conversation. The result gets a fresh id so importing never overwrites an existing thread.
+export const importConversationFromJson = (json: string): Conversation => {
+  let payload: Partial<ConversationExport>;
+  try {
+    payload = JSON.parse(json);
+  } catch {
+    throw new Error('The selected file is not valid JSON.');
+  }
+  if (payload.format !== EXPORT_FORMAT_ID || !payload.conversation || !Array.isArray(payload.conversation.messages)) {
+    throw new Error('The selected file is not a Tamur AI conversation export.');
+  }
+  if ((payload.version ?? 0) > EXPORT_FORMAT_VERSION) {
+    throw new Error('This export was created by a newer version of Tamur AI.');
+  }
+  return {
+    ...payload.conversation,
+    id: createConversationId(),
+    updatedAt: Date.now(),
+    messages: payload.conversation.messages.map(({ isLoading, ...message }) => message),
+  };
+};
+
+export const EXPORT_FILE_TYPES: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  html: { extension: 'html', mimeType: 'text/html' },
+  json: { extension: 'json', mimeType: 'application/json' },
+};
+
+export const exportConversation = async (conversation: Conversation, format: ExportFormat): Promise<Blob> => {
+  const content = format === 'markdown'
+    ? exportConversationToMarkdown(conversation)
+    : format === 'html'
+      ? await exportConversationToHtml(conversation)
+      : await exportConversationToJson(conversation);
+  return new Blob([content], { type: EXPORT_FILE_TYPES[format].mimeType });
+};
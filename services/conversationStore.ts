@@ -0,0 +1,48 @@
+import { ChatMessage, ChatMessageRole, Conversation } from '../types';
+import { CONVERSATIONS_STORE, runRequest } from './database';
+
+// IndexedDB-backed persistence for chat conversations.
+// Each conversation is stored as a single record, including its messages and their media/sources.
+
+// Messages that are still streaming are persisted as finished so a reload never leaves a dangling spinner.
+const toStoredMessages = (messages: ChatMessage[]): ChatMessage[] =>
+  messages.map(({ isLoading, ...message }) => message);
+
+export const DEFAULT_CONVERSATION_TITLE = 'New conversation';
+
+export const createConversationId = () => `conv-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createConversation = (title = DEFAULT_CONVERSATION_TITLE): Conversation => {
+  const now = Date.now();
+  return {
+    id: createConversationId(),
+    title,
+    createdAt: now,
+    updatedAt: now,
+    messages: [],
+  };
+};
+
+export const listConversations = async (): Promise<Conversation[]> => {
+  const conversations = await runRequest<Conversation[]>(CONVERSATIONS_STORE, 'readonly', store => store.getAll());
+  return conversations.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getConversation = async (id: string): Promise<Conversation | undefined> => {
+  return runRequest<Conversation | undefined>(CONVERSATIONS_STORE, 'readonly', store => store.get(id));
+};
+
+export const saveConversation = async (conversation: Conversation): Promise<void> => {
+  await runRequest(CONVERSATIONS_STORE, 'readwrite', store => store.put({ ...conversation, messages: toStoredMessages(conversation.messages) }));
+};
+
+export const deleteConversation = async (id: string): Promise<void> => {
+  await runRequest(CONVERSATIONS_STORE, 'readwrite', store => store.delete(id));
+};
+
+// Derives a sidebar title from the first user prompt of a conversation.
+export const deriveTitle = (messages: ChatMessage[]): string | null => {
+  const firstPrompt = messages.find(m => m.role === ChatMessageRole.USER && m.text.trim())?.text.trim();
+  if (!firstPrompt) return null;
+  return firstPrompt.length > 40 ? `${firstPrompt.slice(0, 40)}…` : firstPrompt;
+};
@@ -1,97 +1,168 @@
+import { ChatMessage, ConversationSettings, TokenUsage } from "../types";
+import { classifyError, isRetryableGeneration, withRetry } from "./aiErrors";
+import { DEFAULT_CONVERSATION_SETTINGS } from "./chatPresets";
+import { recordUsage } from "./usageTracker";
+import { createGeminiProvider } from "./providers/geminiProvider";
+import { createOpenAiCompatibleProvider } from "./providers/openAiCompatibleProvider";
+import { ChatSession, ChatStreamChunk, ImageCapabilities, ImageGenerationOptions, InlineData, LiveCallbacks, LiveConnectOptions, LiveSessionHandle, ModelProvider, ProviderSettings, SpeechCapabilities, ToolExecutor, VideoCapabilities, VideoGenerationOptions, VideoOperation } from "./providers/types";
+import { getToolDeclarations, isToolUseEnabled } from "./tools/registry";
 
-import { GoogleGenAI, Modality, Chat, GenerateContentResponse, GenerateContentStreamResult, Operation, GenerateVideosResponse } from "@google/genai";
+// Entry point for all model calls. Requests are routed to the backend selected in the provider settings,
+// which are persisted locally so the choice survives reloads. Failures surface as `AiServiceError`s, and
+// requests that are safe to repeat are retried when the failure is transient.
 
-// This file assumes `process.env.API_KEY` is available globally.
-// In a real application, you might manage this differently, but per instructions, we use it directly.
+const PROVIDER_SETTINGS_KEY = 'tamur-ai:provider-settings';
 
-export const getAiClient = () => {
-  if (!process.env.API_KEY) {
-    // This is a fallback for local development if the key isn't set.
-    // The main app logic will handle prompting the user to select a key for Veo.
-    console.warn("API_KEY environment variable not set.");
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  kind: 'gemini',
+  geminiConnection: 'direct',
+  geminiApiKey: '',
+  proxyUrl: 'http://localhost:8787',
+  baseUrl: 'http://localhost:8080/v1',
+  apiKey: '',
+  chatModel: 'gpt-4o-mini',
+  imageModel: 'gpt-image-1',
+  imageEditModel: 'gpt-image-1',
+};
+
+let providerSettings: ProviderSettings | null = null;
+let activeProvider: ModelProvider | null = null;
+
+export const getProviderSettings = (): ProviderSettings => {
+  if (!providerSettings) {
+    try {
+      const stored = localStorage.getItem(PROVIDER_SETTINGS_KEY);
+      providerSettings = stored ? { ...DEFAULT_PROVIDER_SETTINGS, ...JSON.parse(stored) } : DEFAULT_PROVIDER_SETTINGS;
+    } catch (error) {
+      console.warn("Could not read provider settings, using defaults.", error);
+      providerSettings = DEFAULT_PROVIDER_SETTINGS;
+    }
   }
-  return new GoogleGenAI({ apiKey: process.env.API_KEY! });
+  return providerSettings!;
 };
 
-export const createChatSession = (): Chat => {
-  const ai = getAiClient();
-  return ai.chats.create({
-    model: 'gemini-2.5-flash',
-    config: {
-      tools: [{ googleSearch: {} }],
-    },
-  });
+export const setProviderSettings = (settings: ProviderSettings) => {
+  providerSettings = settings;
+  activeProvider = null;
+  localStorage.setItem(PROVIDER_SETTINGS_KEY, JSON.stringify(settings));
 };
 
-export const streamChat = (chat: Chat, prompt: string): Promise<GenerateContentStreamResult> => {
-  return chat.sendMessageStream({ message: prompt });
+export const getActiveProvider = (): ModelProvider => {
+  if (!activeProvider) {
+    const settings = getProviderSettings();
+    activeProvider = settings.kind === 'openai-compatible' ? createOpenAiCompatibleProvider(settings) : createGeminiProvider(settings);
+  }
+  return activeProvider;
 };
 
-export const generateImage = async (prompt: string, aspectRatio: string): Promise<string> => {
-  const ai = getAiClient();
-  const response = await ai.models.generateImages({
-    model: 'imagen-4.0-generate-001',
-    prompt,
-    config: {
-      numberOfImages: 1,
-      outputMimeType: 'image/jpeg',
-      aspectRatio,
-    },
+export const createChatSession = (messages: ChatMessage[] = [], settings: ConversationSettings = DEFAULT_CONVERSATION_SETTINGS): ChatSession => {
+  return getActiveProvider().createChatSession(messages, {
+    model: settings.model,
+    systemInstruction: settings.systemPrompt,
+    temperature: settings.temperature,
+    topP: settings.topP,
+    maxOutputTokens: settings.maxOutputTokens,
+    thinkingBudget: settings.thinkingBudget,
+    search: settings.searchEnabled,
+    tools: isToolUseEnabled() ? getToolDeclarations() : [],
   });
+};
 
-  const base64ImageBytes = response.generatedImages[0].image.imageBytes;
-  return `data:image/jpeg;base64,${base64ImageBytes}`;
-};
-
-export const editImage = async (prompt: string, image: { data: string; mimeType: string }): Promise<string> => {
-    const ai = getAiClient();
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: {
-            parts: [
-                {
-                    inlineData: {
-                        data: image.data,
-                        mimeType: image.mimeType,
-                    },
-                },
-                {
-                    text: prompt,
-                },
-            ],
-        },
-        config: {
-            responseModalities: [Modality.IMAGE],
-        },
-    });
-
-    for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData) {
-            return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-        }
-    }
-    throw new Error("No image generated from edit.");
-};
-
-export const generateVideo = async (prompt: string, image: { data: string; mimeType: string }, aspectRatio: '16:9' | '9:16'): Promise<Operation<GenerateVideosResponse>> => {
-  const ai = getAiClient();
-  return await ai.models.generateVideos({
-    model: 'veo-3.1-fast-generate-preview',
-    prompt,
-    image: {
-      imageBytes: image.data,
-      mimeType: image.mimeType,
-    },
-    config: {
-      numberOfVideos: 1,
-      resolution: '720p',
-      aspectRatio,
+export const getChatModels = (): string[] => {
+  return getActiveProvider().chatModels;
+};
+
+// Passes the stream through and logs its final usage, including for replies that were stopped or failed.
+async function* withUsageRecording(model: string, stream: AsyncGenerator<ChatStreamChunk>, conversationId?: string): AsyncGenerator<ChatStreamChunk> {
+  let usage: TokenUsage | undefined;
+  try {
+    for await (const chunk of stream) {
+      usage = chunk.usage ?? usage;
+      yield chunk;
     }
-  });
+  } finally {
+    if (usage) recordUsage({ kind: 'chat', model, usage, conversationId });
+  }
+}
+
+// `conversationId`, here and below, attributes the recorded usage to a conversation for its totals.
+// Only the initial request is retried; once text has streamed, a failure is left to the user to retry.
+export const streamChat = async (chat: ChatSession, prompt: string, attachments: InlineData[] = [], signal?: AbortSignal, executeTool?: ToolExecutor, conversationId?: string): Promise<AsyncGenerator<ChatStreamChunk>> => {
+  const stream = await withRetry(() => chat.sendMessageStream(prompt, attachments, signal, executeTool), signal);
+  return withUsageRecording(chat.model, stream, conversationId);
+};
+
+export const getImageCapabilities = (): ImageCapabilities => {
+  return getActiveProvider().imageCapabilities;
+};
+
+export const generateImage = async (prompt: string, options: ImageGenerationOptions, conversationId?: string): Promise<string[]> => {
+  const provider = getActiveProvider();
+  const images = await withRetry(() => provider.generateImage(prompt, options), undefined, isRetryableGeneration);
+  recordUsage({ kind: 'image', model: provider.imageModel, count: images.length, conversationId });
+  return images;
+};
+
+export const editImage = async (prompt: string, image: InlineData, mask?: InlineData, conversationId?: string): Promise<string> => {
+  const provider = getActiveProvider();
+  const edited = await withRetry(() => provider.editImage(prompt, image, mask), undefined, isRetryableGeneration);
+  recordUsage({ kind: 'image-edit', model: provider.imageEditModel, count: 1, conversationId });
+  return edited;
+};
+
+export const getVideoCapabilities = (): VideoCapabilities => {
+  return getActiveProvider().videoCapabilities;
+};
+
+export const generateVideo = async (prompt: string, options: VideoGenerationOptions, conversationId?: string): Promise<VideoOperation> => {
+  const operation = await withRetry(() => getActiveProvider().generateVideo(prompt, options), undefined, isRetryableGeneration);
+  // Counted when the job is accepted, so jobs that later fail still show up in the estimate.
+  recordUsage({ kind: 'video', model: options.model, count: 1, conversationId });
+  return operation;
+};
+
+export const checkVideoStatus = (operation: VideoOperation): Promise<VideoOperation> => {
+  return getActiveProvider().checkVideoStatus(operation);
+};
+
+export const downloadVideo = (videoUri: string): Promise<Blob> => {
+  return withRetry(() => getActiveProvider().downloadVideo(videoUri));
 };
 
+export const getSpeechCapabilities = (): SpeechCapabilities => {
+  return getActiveProvider().speechCapabilities;
+};
+
+// Resolves to an audio data URL.
+export const generateSpeech = async (text: string, voiceName: string, conversationId?: string): Promise<string> => {
+  const provider = getActiveProvider();
+  const { url, usage } = await withRetry(() => provider.generateSpeech(text, voiceName));
+  if (usage) recordUsage({ kind: 'speech', model: provider.speechModel, usage, conversationId });
+  return url;
+};
+
+export const transcribeAudio = async (audio: InlineData, conversationId?: string): Promise<string> => {
+  const provider = getActiveProvider();
+  const { text, usage } = await withRetry(() => provider.transcribeAudio(audio));
+  if (usage) recordUsage({ kind: 'transcription', model: provider.transcriptionModel, usage, conversationId });
+  return text;
+};
 
-export const checkVideoStatus = async (operation: Operation<GenerateVideosResponse>): Promise<Operation<GenerateVideosResponse>> => {
-    const ai = getAiClient();
-    return await ai.operations.getVideosOperation({ operation });
+export const connectLive = (options: LiveConnectOptions, callbacks: LiveCallbacks): Promise<LiveSessionHandle> => {
+  return getActiveProvider().connectLive(options, callbacks).catch(error => {
+    throw classifyError(error);
+  });
+};
+
+export const fileToBase64 = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(file);
+    reader.onload = () => {
+      const result = reader.result as string;
+      // remove data url prefix
+      resolve(result.split(',')[1]);
+    };
+    reader.onerror = (error) => reject(error);
+  });
 };
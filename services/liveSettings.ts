@@ -0,0 +1,39 @@
+// Preferences for Live voice sessions, persisted locally and applied each time a session connects.
+
+const LIVE_SETTINGS_KEY = 'tamur-ai:live-settings';
+
+export interface LiveSettings {
+  voiceName: string;
+  // Language name the model should answer in; empty to follow the user's language.
+  language: string;
+  systemInstruction: string;
+  showTranscripts: boolean;
+  // When on, audio is only sent while the talk button is held instead of keeping the microphone open.
+  pushToTalk: boolean;
+}
+
+export const LIVE_VOICES = ['Zephyr', 'Puck', 'Charon', 'Kore', 'Fenrir', 'Aoede', 'Leda', 'Orus'];
+
+export const LIVE_LANGUAGES = ['English', 'Spanish', 'French', 'German', 'Italian', 'Portuguese', 'Dutch', 'Turkish', 'Russian', 'Arabic', 'Hindi', 'Japanese', 'Korean', 'Chinese'];
+
+export const DEFAULT_LIVE_SETTINGS: LiveSettings = {
+  voiceName: 'Zephyr',
+  language: '',
+  systemInstruction: 'You are Tamur AI, a friendly and helpful assistant.',
+  showTranscripts: true,
+  pushToTalk: false,
+};
+
+export const getLiveSettings = (): LiveSettings => {
+  try {
+    const stored = localStorage.getItem(LIVE_SETTINGS_KEY);
+    return stored ? { ...DEFAULT_LIVE_SETTINGS, ...JSON.parse(stored) } : DEFAULT_LIVE_SETTINGS;
+  } catch (error) {
+    console.warn("Could not read live settings, using defaults.", error);
+    return DEFAULT_LIVE_SETTINGS;
+  }
+};
+
+export const setLiveSettings = (settings: LiveSettings) => {
+  localStorage.setItem(LIVE_SETTINGS_KEY, JSON.stringify(settings));
+};
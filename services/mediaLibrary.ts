@@ -0,0 +1,112 @@
+import { Media } from '../types';
+import { downloadBlob, getMediaType } from '../utils/mediaHelpers';
+import { createZip } from '../utils/zip';
+import { MEDIA_STORE, runRequest } from './database';
+
+// Keeps every generated, edited and uploaded file as a Blob in IndexedDB, independent of the chat messages
+// that show it, so assets can be found again and reused after their conversation is gone.
+
+export type AssetSource = 'generated' | 'edited' | 'uploaded';
+
+export interface MediaAsset {
+  id: string;
+  type: Media['type'];
+  mimeType: string;
+  blob: Blob;
+  source: AssetSource;
+  createdAt: number;
+  name?: string;
+  prompt?: string;
+  model?: string;
+  aspectRatio?: string;
+  // The conversation the asset was created in or posted to, if any.
+  conversationId?: string;
+}
+
+export type MediaAssetDetails = Pick<MediaAsset, 'source' | 'name' | 'prompt' | 'model' | 'aspectRatio' | 'conversationId'>;
+
+export interface AssetFilter {
+  query: string;
+  type: Media['type'] | 'all';
+  source: AssetSource | 'all';
+}
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'video/mp4': 'mp4',
+  'audio/wav': 'wav',
+  'audio/mpeg': 'mp3',
+  'application/pdf': 'pdf',
+  'text/plain': 'txt',
+  'text/markdown': 'md',
+};
+
+const createAssetId = () => `asset-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const saveAssetBlob = async (blob: Blob, details: MediaAssetDetails): Promise<MediaAsset> => {
+  const mimeType = blob.type || 'application/octet-stream';
+  const asset: MediaAsset = {
+    ...details,
+    id: createAssetId(),
+    type: getMediaType(mimeType) ?? 'document',
+    mimeType,
+    blob,
+    createdAt: Date.now(),
+  };
+  await runRequest(MEDIA_STORE, 'readwrite', store => store.put(asset));
+  return asset;
+};
+
+// Accepts data, blob and remote URLs.
+export const saveAssetFromUrl = async (url: string, details: MediaAssetDetails): Promise<MediaAsset> => {
+  const response = await fetch(url);
+  return saveAssetBlob(await response.blob(), details);
+};
+
+// Saving to the library never blocks or fails the action that produced the asset.
+export const addToLibrary = (asset: string | Blob, details: MediaAssetDetails) => {
+  (typeof asset === 'string' ? saveAssetFromUrl(asset, details) : saveAssetBlob(asset, details))
+    .catch(error => console.error("Error saving to the media library:", error));
+};
+
+export const listAssets = async (): Promise<MediaAsset[]> => {
+  const assets = await runRequest<MediaAsset[]>(MEDIA_STORE, 'readonly', store => store.getAll());
+  return assets.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteAssets = async (ids: string[]): Promise<void> => {
+  for (const id of ids) {
+    await runRequest(MEDIA_STORE, 'readwrite', store => store.delete(id));
+  }
+};
+
+export const filterAssets = (assets: MediaAsset[], filter: AssetFilter): MediaAsset[] => {
+  const query = filter.query.trim().toLowerCase();
+  return assets.filter(asset =>
+    (filter.type === 'all' || asset.type === filter.type)
+    && (filter.source === 'all' || asset.source === filter.source)
+    && (!query || [asset.prompt, asset.name, asset.model].some(value => value?.toLowerCase().includes(query))));
+};
+
+export const getAssetFileName = (asset: MediaAsset): string => {
+  if (asset.name) return asset.name;
+  const date = new Date(asset.createdAt).toISOString().slice(0, 19).replace(/[:T]/g, '-');
+  return `${asset.type}-${date}-${asset.id.slice(-6)}.${FILE_EXTENSIONS[asset.mimeType] ?? 'bin'}`;
+};
+
+// Names are made unique so that assets with the same file name do not overwrite each other when extracted.
+export const downloadAssetsAsZip = async (assets: MediaAsset[]) => {
+  const usedNames = new Set<string>();
+  const entries = [];
+  for (const asset of assets) {
+    let name = getAssetFileName(asset);
+    for (let n = 2; usedNames.has(name); n++) {
+      name = getAssetFileName(asset).replace(/(\.[^.]*)?$/, `-${n}$1`);
+    }
+    usedNames.add(name);
+    entries.push({ name, data: new Uint8Array(await asset.blob.arrayBuffer()), modifiedAt: new Date(asset.createdAt) });
+  }
+  downloadBlob(createZip(entries), `tamur-media-${new Date().toISOString().slice(0, 10)}.zip`);
+};
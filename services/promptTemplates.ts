@@ -0,0 +1,43 @@
+// Reusable prompts saved by the user. `{{name}}` placeholders are filled in when a template is inserted from the composer.
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  text: string;
+}
+
+const TEMPLATES_KEY = 'tamur-ai:prompt-templates';
+const VARIABLE_PATTERN = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+export const listTemplates = (): PromptTemplate[] => {
+  try {
+    return JSON.parse(localStorage.getItem(TEMPLATES_KEY) ?? '[]');
+  } catch (error) {
+    console.warn("Could not read prompt templates.", error);
+    return [];
+  }
+};
+
+const writeTemplates = (templates: PromptTemplate[]) => {
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+};
+
+// Updates the template with the same id, or adds it when there is none.
+export const saveTemplate = (template: Omit<PromptTemplate, 'id'> & { id?: string }): PromptTemplate => {
+  const saved: PromptTemplate = { ...template, id: template.id ?? `template-${Date.now()}` };
+  const templates = listTemplates();
+  writeTemplates(templates.some(t => t.id === saved.id) ? templates.map(t => t.id === saved.id ? saved : t) : [...templates, saved]);
+  return saved;
+};
+
+export const deleteTemplate = (id: string) => {
+  writeTemplates(listTemplates().filter(template => template.id !== id));
+};
+
+// Variable names in order of first appearance.
+export const getTemplateVariables = (text: string): string[] =>
+  [...new Set([...text.matchAll(VARIABLE_PATTERN)].map(match => match[1]))];
+
+// Variables without a value are left as they are, so they stay visible in the prompt.
+export const fillTemplate = (text: string, values: Record<string, string>): string =>
+  text.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name]?.trim() ? values[name].trim() : placeholder);
@@ -0,0 +1,442 @@
+import { GoogleGenAI, Modality, VideoGenerationReferenceType, Content, FinishReason, FunctionCall, GenerateContentConfig, GenerateContentResponse, GenerateVideosOperation, GroundingMetadata, HarmProbability, LiveServerMessage, Part, SafetyRating as GeminiSafetyRating } from "@google/genai";
+import { ChatMessage, ChatMessageRole, Citation, ResponseFinish, SafetyRating, Source, TokenUsage } from "../../types";
+import { AiServiceError, createHttpError } from "../aiErrors";
+import { addUsage, EMPTY_USAGE } from "../usageTracker";
+import { decode, pcmToWavMedia } from "../../utils/mediaHelpers";
+import { ChatSession, ChatSessionOptions, ChatStreamChunk, ImageCapabilities, ImageGenerationOptions, InlineData, ModelProvider, ProviderSettings, SpeechCapabilities, SpeechResult, TranscriptionResult, VideoCapabilities, VideoGenerationOptions, VideoOperation } from "./types";
+
+const CHAT_MODELS = ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.5-flash-lite'];
+const IMAGE_MODEL = 'imagen-4.0-generate-001';
+const IMAGE_EDIT_MODEL = 'gemini-2.5-flash-image';
+const VIDEO_MODEL = 'veo-3.1-fast-generate-preview';
+const SPEECH_MODEL = 'gemini-2.5-flash-preview-tts';
+const TRANSCRIPTION_MODEL = 'gemini-2.5-flash';
+const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+
+// In proxy mode the SDK still needs some key; the proxy drops this placeholder and attaches the real one.
+const PROXY_PLACEHOLDER_KEY = 'proxy';
+
+// Direct mode uses the key the user entered in the app; proxy mode sends every request, including the
+// Live WebSocket, through the local proxy server so the key never reaches the browser.
+export const getAiClient = (settings: ProviderSettings): GoogleGenAI => {
+  if (settings.geminiConnection === 'proxy') {
+    return new GoogleGenAI({ apiKey: PROXY_PLACEHOLDER_KEY, httpOptions: { baseUrl: `${settings.proxyUrl.replace(/\/+$/, '')}/api/gemini` } });
+  }
+  return new GoogleGenAI({ apiKey: settings.geminiApiKey });
+};
+
+// Converts stored chat messages into the alternating user/model history the Chat API expects.
+// Consecutive turns from the same role are merged and leading model turns are dropped.
+export const toChatHistory = (messages: ChatMessage[]): Content[] => {
+  const history: Content[] = [];
+  for (const message of messages) {
+    if (message.isLoading) continue;
+    const parts: Part[] = [];
+    for (const media of message.media ?? []) {
+      if (media.base64Data && media.mimeType) {
+        parts.push({ inlineData: { data: media.base64Data, mimeType: media.mimeType } });
+      }
+    }
+    if (message.text.trim()) {
+      parts.push({ text: message.text });
+    }
+    if (parts.length === 0) continue;
+
+    const role = message.role === ChatMessageRole.USER ? 'user' : 'model';
+    const previous = history[history.length - 1];
+    if (previous?.role === role) {
+      previous.parts!.push(...parts);
+    } else if (history.length > 0 || role === 'user') {
+      history.push({ role, parts });
+    }
+  }
+  return history;
+};
+
+// Maps grounding metadata to numbered web sources and the citations that reference them.
+// Source ids follow the order of web chunks, so non-web chunks never leave gaps in the numbering.
+const toSourcesAndCitations = (metadata: GroundingMetadata): { sources: Source[]; citations: Citation[] } => {
+  const sourceIdsByChunk = new Map<number, string>();
+  const sources: Source[] = [];
+  (metadata.groundingChunks ?? []).forEach((chunk, index) => {
+    const uri = chunk.web?.uri;
+    if (!uri) return;
+    const id = `S${sources.length + 1}`;
+    sourceIdsByChunk.set(index, id);
+    sources.push({ id, url: uri, title: chunk.web!.title ?? uri, domain: new URL(uri).hostname });
+  });
+
+  const citations: Citation[] = [];
+  for (const support of metadata.groundingSupports ?? []) {
+    const endIndex = support.segment?.endIndex;
+    const sourceIds = (support.groundingChunkIndices ?? [])
+      .map(index => sourceIdsByChunk.get(index))
+      .filter((id): id is string => !!id);
+    if (endIndex !== undefined && sourceIds.length > 0) {
+      citations.push({ endIndex, sourceIds });
+    }
+  }
+  return { sources, citations };
+};
+
+// Upper bound on model/tool round trips for a single prompt, so a misbehaving model cannot loop forever.
+const MAX_TOOL_ROUNDS = 5;
+
+// Reads only the visible text parts; `chunk.text` warns whenever a chunk also carries function calls.
+const textOf = (chunk: GenerateContentResponse): string =>
+  (chunk.candidates?.[0]?.content?.parts ?? [])
+    .filter(part => part.text && !part.thought)
+    .map(part => part.text)
+    .join('');
+
+const SAFETY_FINISH_REASONS: string[] = [FinishReason.SAFETY, FinishReason.BLOCKLIST, FinishReason.PROHIBITED_CONTENT, FinishReason.SPII, FinishReason.IMAGE_SAFETY];
+
+const toSafetyRatings = (ratings: GeminiSafetyRating[] = []): SafetyRating[] =>
+  ratings
+    .filter(rating => rating.blocked || (rating.probability && rating.probability !== HarmProbability.NEGLIGIBLE))
+    .map(rating => ({ category: rating.category ?? 'HARM_CATEGORY_UNSPECIFIED', probability: rating.probability ?? 'HARM_PROBABILITY_UNSPECIFIED', blocked: rating.blocked }));
+
+// Reports blocked prompts and replies that stopped for any reason other than finishing normally.
+const toResponseFinish = (response: GenerateContentResponse): ResponseFinish | undefined => {
+  const feedback = response.promptFeedback;
+  if (feedback?.blockReason) {
+    return { reason: 'blocked', detail: feedback.blockReason, safetyRatings: toSafetyRatings(feedback.safetyRatings) };
+  }
+  const candidate = response.candidates?.[0];
+  const finishReason = candidate?.finishReason;
+  if (!finishReason || finishReason === FinishReason.STOP || finishReason === FinishReason.FINISH_REASON_UNSPECIFIED) return undefined;
+  const reason: ResponseFinish['reason'] = finishReason === FinishReason.MAX_TOKENS ? 'max-tokens'
+    : SAFETY_FINISH_REASONS.includes(finishReason) ? 'safety'
+    : finishReason === FinishReason.RECITATION ? 'recitation'
+    : 'other';
+  return { reason, detail: finishReason, safetyRatings: toSafetyRatings(candidate.safetyRatings) };
+};
+
+// Tool-use prompt tokens are billed as input, like the rest of the prompt.
+const toTokenUsage = (metadata: NonNullable<GenerateContentResponse['usageMetadata']>): TokenUsage => ({
+  promptTokens: (metadata.promptTokenCount ?? 0) + (metadata.toolUsePromptTokenCount ?? 0),
+  responseTokens: metadata.candidatesTokenCount ?? 0,
+  cachedTokens: metadata.cachedContentTokenCount ?? 0,
+  thinkingTokens: metadata.thoughtsTokenCount ?? 0,
+});
+
+const describeFinish = (finish: ResponseFinish): string =>
+  [finish.detail, ...(finish.safetyRatings ?? []).map(rating => `${rating.category} ${rating.probability}`)].filter(Boolean).join(', ');
+
+const createChatSession = (ai: GoogleGenAI, messages: ChatMessage[], options: ChatSessionOptions = {}): ChatSession => {
+  // Gemini 2.5 cannot combine search grounding with function calling in one request.
+  const config: GenerateContentConfig = {
+    tools: options.tools?.length
+      ? [{ functionDeclarations: options.tools.map(({ name, description, parameters }) => ({ name, description, parametersJsonSchema: parameters })) }]
+      : options.search === false ? undefined : [{ googleSearch: {} }],
+    systemInstruction: options.systemInstruction || undefined,
+    temperature: options.temperature,
+    topP: options.topP,
+    maxOutputTokens: options.maxOutputTokens,
+    thinkingConfig: options.thinkingBudget !== undefined ? { thinkingBudget: options.thinkingBudget } : undefined,
+  };
+  const model = options.model || CHAT_MODELS[0];
+  const chat = ai.chats.create({
+    model,
+    config,
+    history: toChatHistory(messages),
+  });
+
+  return {
+    model,
+    sendMessageStream: async (message, attachments = [], signal, executeTool) => {
+      const parts: Part[] = attachments.map(inlineData => ({ inlineData }));
+      if (message.trim()) {
+        parts.push({ text: message });
+      }
+      // A per-message config replaces the session config, so it has to carry the tools as well.
+      const send = (messageParts: Part[]) => chat.sendMessageStream({ message: messageParts, config: { ...config, abortSignal: signal } });
+      let stream = await send(parts);
+      return (async function* (): AsyncGenerator<ChatStreamChunk> {
+        // Usage metadata is cumulative within one request, so earlier tool rounds are added to the latest value.
+        let previousRoundsUsage = EMPTY_USAGE;
+        for (let round = 0; ; round++) {
+          const functionCalls: FunctionCall[] = [];
+          let finish: ResponseFinish | undefined;
+          let roundUsage = EMPTY_USAGE;
+          for await (const chunk of stream) {
+            // Blocked prompts and cut-off replies end the stream normally and are only visible here.
+            finish = toResponseFinish(chunk) ?? finish;
+            if (chunk.usageMetadata) {
+              roundUsage = toTokenUsage(chunk.usageMetadata);
+            }
+            const groundingMetadata = chunk.candidates?.[0]?.groundingMetadata;
+            functionCalls.push(...(chunk.functionCalls ?? []));
+            yield {
+              text: textOf(chunk),
+              ...(groundingMetadata?.groundingChunks ? toSourcesAndCitations(groundingMetadata) : {}),
+              ...(finish ? { finish } : {}),
+              ...(chunk.usageMetadata ? { usage: addUsage(previousRoundsUsage, roundUsage) } : {}),
+            };
+          }
+          previousRoundsUsage = addUsage(previousRoundsUsage, roundUsage);
+          if (functionCalls.length === 0 || !executeTool || finish) return;
+          if (round >= MAX_TOOL_ROUNDS) throw new Error('The model kept calling tools without answering. Please try again.');
+
+          const responses: Part[] = [];
+          for (const [index, call] of functionCalls.entries()) {
+            const response = await executeTool({ id: call.id ?? `${call.name}-${Date.now()}-${index}`, name: call.name!, args: call.args ?? {} });
+            responses.push({ functionResponse: { id: call.id, name: call.name, response } });
+          }
+          stream = await send(responses);
+        }
+      })();
+    },
+  };
+};
+
+// The Gemini API rejects `negativePrompt` and `seed` for Imagen; they are only available on Vertex AI.
+const imageCapabilities: ImageCapabilities = {
+  maxImages: 4,
+  outputMimeTypes: ['image/jpeg', 'image/png'],
+  negativePrompt: false,
+  seed: false,
+};
+
+const generateImage = async (ai: GoogleGenAI, prompt: string, options: ImageGenerationOptions): Promise<string[]> => {
+  const response = await ai.models.generateImages({
+    model: IMAGE_MODEL,
+    prompt,
+    config: {
+      numberOfImages: options.numberOfImages,
+      outputMimeType: options.outputMimeType,
+      aspectRatio: options.aspectRatio,
+    },
+  });
+
+  const images = (response.generatedImages ?? [])
+    .filter(generated => generated.image?.imageBytes)
+    .map(generated => `data:${generated.image!.mimeType ?? options.outputMimeType};base64,${generated.image!.imageBytes}`);
+  if (images.length === 0) {
+    const filteredReasons = (response.generatedImages ?? []).map(generated => generated.raiFilteredReason).filter(Boolean);
+    if (filteredReasons.length > 0) {
+      throw new AiServiceError('safety', `The images were filtered out by the safety filters: ${filteredReasons.join(' ')}`);
+    }
+    throw new Error("No images were generated.");
+  }
+  return images;
+};
+
+// Gemini has no dedicated mask parameter, so the mask is sent as a second image with instructions to respect it.
+const editImage = async (ai: GoogleGenAI, prompt: string, image: InlineData, mask?: InlineData): Promise<string> => {
+    const parts: Part[] = [{ inlineData: { data: image.data, mimeType: image.mimeType } }];
+    if (mask) {
+        parts.push(
+            { inlineData: { data: mask.data, mimeType: mask.mimeType } },
+            { text: 'The second image is a mask for the first. Only change the areas that are white in the mask and keep everything in the black areas exactly as it is.' },
+        );
+    }
+    parts.push({ text: prompt });
+    const response = await ai.models.generateContent({
+        model: IMAGE_EDIT_MODEL,
+        contents: { parts },
+        config: {
+            responseModalities: [Modality.IMAGE],
+        },
+    });
+
+    for (const part of response.candidates?.[0]?.content?.parts ?? []) {
+        if (part.inlineData) {
+            return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+        }
+    }
+    const finish = toResponseFinish(response);
+    if (finish?.reason === 'blocked' || finish?.reason === 'safety') {
+        throw new AiServiceError('safety', `The edit was blocked by the safety filters (${describeFinish(finish)}). Try a different prompt or image.`);
+    }
+    // Without an image the model usually explains itself in text.
+    throw new Error(textOf(response) || (finish ? `No image generated from edit (${describeFinish(finish)}).` : "No image generated from edit."));
+};
+
+const toVideoOperation = (operation: GenerateVideosOperation): VideoOperation => ({
+  name: operation.name!,
+  done: !!operation.done,
+  videoUri: operation.response?.generatedVideos?.[0]?.video?.uri,
+  error: operation.error
+    ? String(operation.error.message ?? JSON.stringify(operation.error))
+    : operation.response?.raiMediaFilteredReasons?.length ? `The video was blocked by the safety filters: ${operation.response.raiMediaFilteredReasons.join(' ')}` : undefined,
+});
+
+// Veo 3.1 only renders 1080p and reference images as 8 second clips; the panel enforces that before calling.
+const videoCapabilities: VideoCapabilities = {
+  models: [
+    { id: VIDEO_MODEL, label: 'Veo 3.1 Fast' },
+    { id: 'veo-3.1-generate-preview', label: 'Veo 3.1 (higher quality)' },
+  ],
+  resolutions: ['720p', '1080p'],
+  durations: [4, 6, 8],
+  maxReferenceImages: 3,
+  lastFrame: true,
+  extend: true,
+};
+
+const toImage = (image: InlineData) => ({ imageBytes: image.data, mimeType: image.mimeType });
+
+const generateVideo = async (ai: GoogleGenAI, prompt: string, options: VideoGenerationOptions): Promise<VideoOperation> => {
+  if (options.extendVideoUri) {
+    // Extensions keep the source video's aspect ratio, add a fixed-length segment and are only available at 720p.
+    const operation = await ai.models.generateVideos({
+      model: options.model,
+      prompt,
+      video: { uri: options.extendVideoUri },
+      config: { numberOfVideos: 1, resolution: '720p', negativePrompt: options.negativePrompt },
+    });
+    return toVideoOperation(operation);
+  }
+  const operation = await ai.models.generateVideos({
+    model: options.model,
+    prompt,
+    image: options.image && toImage(options.image),
+    config: {
+      numberOfVideos: 1,
+      resolution: options.resolution,
+      aspectRatio: options.aspectRatio,
+      durationSeconds: options.durationSeconds,
+      negativePrompt: options.negativePrompt,
+      lastFrame: options.image && options.lastFrame ? toImage(options.lastFrame) : undefined,
+      referenceImages: !options.image && options.referenceImages?.length
+        ? options.referenceImages.map(image => ({ image: toImage(image), referenceType: VideoGenerationReferenceType.ASSET }))
+        : undefined,
+    }
+  });
+  return toVideoOperation(operation);
+};
+
+const checkVideoStatus = async (ai: GoogleGenAI, operation: VideoOperation): Promise<VideoOperation> => {
+    const handle = new GenerateVideosOperation();
+    handle.name = operation.name;
+    return toVideoOperation(await ai.operations.getVideosOperation({ operation: handle }));
+};
+
+// Video files need the key, which is sent as a header (or added by the proxy) rather than put in a URL.
+const downloadVideo = async (settings: ProviderSettings, videoUri: string): Promise<Blob> => {
+  const response = settings.geminiConnection === 'proxy'
+    ? await fetch(`${settings.proxyUrl.replace(/\/+$/, '')}/api/video?uri=${encodeURIComponent(videoUri)}`)
+    : await fetch(videoUri, { headers: { 'x-goog-api-key': settings.geminiApiKey } });
+  if (!response.ok) {
+    throw createHttpError(response.status, await response.text().catch(() => ''), response.headers.get('Retry-After'));
+  }
+  return response.blob();
+};
+
+const speechCapabilities: SpeechCapabilities = {
+  voices: [
+    'Zephyr', 'Puck', 'Charon', 'Kore', 'Fenrir', 'Leda', 'Orus', 'Aoede', 'Callirrhoe', 'Autonoe', 'Enceladus', 'Iapetus', 'Umbriel', 'Algieba', 'Despina',
+    'Erinome', 'Algenib', 'Rasalgethi', 'Laomedeia', 'Achernar', 'Alnilam', 'Schedar', 'Gacrux', 'Pulcherrima', 'Achird', 'Zubenelgenubi', 'Vindemiatrix', 'Sadachbia', 'Sadaltager', 'Sulafat',
+  ],
+  transcription: true,
+};
+
+// The TTS model returns raw 16-bit mono PCM at 24 kHz, which browsers only play inside a WAV container.
+const generateSpeech = async (ai: GoogleGenAI, text: string, voiceName: string): Promise<SpeechResult> => {
+  const response = await ai.models.generateContent({
+    model: SPEECH_MODEL,
+    contents: [{ role: 'user', parts: [{ text }] }],
+    config: {
+      responseModalities: [Modality.AUDIO],
+      speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName } } },
+    },
+  });
+  const audio = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData?.data)?.inlineData;
+  if (!audio?.data) {
+    const finish = toResponseFinish(response);
+    if (finish?.reason === 'blocked' || finish?.reason === 'safety') {
+      throw new AiServiceError('safety', `Speech was blocked by the safety filters (${describeFinish(finish)}).`);
+    }
+    throw new Error(finish ? `No speech generated (${describeFinish(finish)}).` : 'No speech generated.');
+  }
+  const pcm = decode(audio.data);
+  return {
+    url: pcmToWavMedia([new Int16Array(pcm.buffer, 0, Math.floor(pcm.length / 2))], 24000, 'speech.wav').url,
+    usage: response.usageMetadata && toTokenUsage(response.usageMetadata),
+  };
+};
+
+const transcribeAudio = async (ai: GoogleGenAI, audio: InlineData): Promise<TranscriptionResult> => {
+  const response = await ai.models.generateContent({
+    model: TRANSCRIPTION_MODEL,
+    contents: [{
+      role: 'user',
+      parts: [
+        { inlineData: { data: audio.data, mimeType: audio.mimeType } },
+        { text: 'Transcribe this recording word for word in the language it is spoken in. Reply with the transcript only, without quotes or comments. Reply with nothing if there is no speech.' },
+      ],
+    }],
+    config: { thinkingConfig: { thinkingBudget: 0 } },
+  });
+  return { text: textOf(response).trim(), usage: response.usageMetadata && toTokenUsage(response.usageMetadata) };
+};
+
+export const createGeminiProvider = (settings: ProviderSettings): ModelProvider => {
+  const ai = getAiClient(settings);
+
+  return {
+    kind: 'gemini',
+    chatModels: CHAT_MODELS,
+    imageModel: IMAGE_MODEL,
+    imageEditModel: IMAGE_EDIT_MODEL,
+    videoModel: VIDEO_MODEL,
+    speechModel: SPEECH_MODEL,
+    transcriptionModel: TRANSCRIPTION_MODEL,
+    imageCapabilities,
+    videoCapabilities,
+    createChatSession: (messages, options) => createChatSession(ai, messages, options),
+    generateImage: (prompt, options) => generateImage(ai, prompt, options),
+    editImage: (prompt, image, mask) => editImage(ai, prompt, image, mask),
+    generateVideo: (prompt, options) => generateVideo(ai, prompt, options),
+    checkVideoStatus: (operation) => checkVideoStatus(ai, operation),
+    downloadVideo: (videoUri) => downloadVideo(settings, videoUri),
+    speechCapabilities,
+    generateSpeech: (text, voiceName) => generateSpeech(ai, text, voiceName),
+    transcribeAudio: (audio) => transcribeAudio(ai, audio),
+    connectLive: async (options, callbacks) => {
+      const session = await ai.live.connect({
+        model: LIVE_MODEL,
+        config: {
+          responseModalities: [Modality.AUDIO],
+          inputAudioTranscription: {},
+          outputAudioTranscription: {},
+          speechConfig: {
+            voiceConfig: { prebuiltVoiceConfig: { voiceName: options.voiceName } },
+          },
+          // Native audio models pick the spoken language themselves, so the preference is given as an instruction.
+          systemInstruction: options.language
+            ? `${options.systemInstruction}\n\nAlways respond in ${options.language}.`
+            : options.systemInstruction,
+          ...(options.pushToTalk ? { realtimeInputConfig: { automaticActivityDetection: { disabled: true } } } : {}),
+        },
+        callbacks: {
+          onopen: callbacks.onOpen,
+          onmessage: (message: LiveServerMessage) => {
+            const content = message.serverContent;
+            if (!content) return;
+            if (content.inputTranscription?.text) callbacks.onInputTranscription(content.inputTranscription.text);
+            if (content.outputTranscription?.text) callbacks.onOutputTranscription(content.outputTranscription.text);
+            if (content.turnComplete) callbacks.onTurnComplete();
+            const base64Audio = content.modelTurn?.parts?.[0]?.inlineData?.data;
+            if (base64Audio) callbacks.onAudio(base64Audio);
+            if (content.interrupted) callbacks.onInterrupted();
+          },
+          onerror: callbacks.onError,
+          onclose: callbacks.onClose,
+        },
+      });
+      // Only the text of earlier turns is sent; re-uploading their media would delay the first spoken reply.
+      const turns = toChatHistory((options.history ?? []).map(({ media, ...message }) => message));
+      if (turns.length > 0) {
+        session.sendClientContent({ turns, turnComplete: false });
+      }
+      return {
+        sendAudio: (pcm) => session.sendRealtimeInput({ media: pcm }),
+        startActivity: () => session.sendRealtimeInput({ activityStart: {} }),
+        endActivity: () => session.sendRealtimeInput({ activityEnd: {} }),
+        close: () => session.close(),
+      };
+    },
+  };
+};
@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createOpenAiCompatibleProvider, splitImageRequests, toImageEditFields, toImageGenerationBody } from './openAiCompatibleProvider';
+import type { ProviderSettings } from './types';
+
+const options = { aspectRatio: '16:9', numberOfImages: 2, outputMimeType: 'image/jpeg' };
+
+describe('toImageGenerationBody', () => {
+  it('uses gpt-image sizes and an output format, without a response format', () => {
+    const body = toImageGenerationBody('gpt-image-1', 'a fox', options);
+    expect(body).toEqual({ model: 'gpt-image-1', prompt: 'a fox', n: 2, size: '1536x1024', output_format: 'jpeg' });
+    expect(toImageGenerationBody('gpt-image-1', 'a fox', { ...options, aspectRatio: '3:4' }).size).toBe('1024x1536');
+  });
+
+  it('uses DALL·E 3 sizes and asks for base64, without an output format', () => {
+    const body = toImageGenerationBody('dall-e-3', 'a fox', options);
+    expect(body).toEqual({ model: 'dall-e-3', prompt: 'a fox', n: 2, size: '1792x1024', response_format: 'b64_json' });
+  });
+
+  it('makes DALL·E 2 images square', () => {
+    const body = toImageGenerationBody('dall-e-2', 'a fox', options);
+    expect(body).toEqual({ model: 'dall-e-2', prompt: 'a fox', n: 2, size: '1024x1024', response_format: 'b64_json' });
+  });
+
+  it('sends no format options to other servers, but passes negative prompts and seeds on', () => {
+    const body = toImageGenerationBody('sdxl', 'a fox', { ...options, aspectRatio: '5:4', negativePrompt: 'blur', seed: 7 });
+    expect(body).toEqual({ model: 'sdxl', prompt: 'a fox', n: 2, size: '1024x1024', negative_prompt: 'blur', seed: 7 });
+  });
+});
+
+describe('toImageEditFields', () => {
+  it('asks DALL·E for base64 and gpt-image for PNG', () => {
+    expect(toImageEditFields('dall-e-2', 'add a hat')).toEqual({ model: 'dall-e-2', prompt: 'add a hat', response_format: 'b64_json' });
+    expect(toImageEditFields('gpt-image-1', 'add a hat')).toEqual({ model: 'gpt-image-1', prompt: 'add a hat', output_format: 'png' });
+  });
+});
+
+describe('splitImageRequests', () => {
+  it('sends a DALL·E 3 batch as single-image requests', () => {
+    const requests = splitImageRequests('dall-e-3', { ...options, numberOfImages: 3 });
+    expect(requests).toHaveLength(3);
+    expect(requests.every(request => request.numberOfImages === 1 && request.aspectRatio === '16:9')).toBe(true);
+  });
+
+  it('keeps batches in one request for other models', () => {
+    expect(splitImageRequests('gpt-image-1', options)).toEqual([options]);
+    expect(splitImageRequests('dall-e-2', options)).toEqual([options]);
+  });
+});
+
+describe('chat sessions', () => {
+  const settings: ProviderSettings = {
+    kind: 'openai-compatible',
+    geminiConnection: 'direct',
+    geminiApiKey: '',
+    proxyUrl: '',
+    baseUrl: 'http://localhost:8080/v1',
+    apiKey: '',
+    chatModel: 'test-model',
+    imageModel: 'gpt-image-1',
+    imageEditModel: 'gpt-image-1',
+  };
+  const tools = [{ name: 'calculate', description: 'Evaluates an expression.', parameters: { type: 'object' } }];
+
+  const streamOf = (...events: unknown[]) =>
+    new Response([...events.map(event => `data: ${JSON.stringify(event)}\n\n`), 'data: [DONE]\n\n'].join(''));
+
+  const toolCallEvent = (finishReason: string) => ({
+    choices: [{
+      delta: { tool_calls: [{ index: 0, id: 'call-1', function: { name: 'calculate', arguments: '{"expression":"1+1"}' } }] },
+      finish_reason: finishReason,
+    }],
+  });
+
+  // Sends a prompt, drains the reply and returns the messages of the request that follows it.
+  const nextRequestMessages = async (firstReply: Response, executeTool?: () => Promise<Record<string, unknown>>) => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(firstReply)
+      .mockImplementation(async () => streamOf({ choices: [{ delta: { content: 'Done.' }, finish_reason: 'stop' }] }));
+    vi.stubGlobal('fetch', fetchMock);
+    const session = createOpenAiCompatibleProvider(settings).createChatSession([], { tools });
+    for await (const _chunk of await session.sendMessageStream('What is 1+1?', [], undefined, executeTool)) {
+      // Drained for its side effects on the history.
+    }
+    for await (const _chunk of await session.sendMessageStream('Thanks', [])) {
+      // Only the request body matters.
+    }
+    return JSON.parse(fetchMock.mock.calls[fetchMock.mock.calls.length - 1][1].body).messages;
+  };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('answers tool calls with tool messages before the next turn', async () => {
+    const messages = await nextRequestMessages(streamOf(toolCallEvent('tool_calls')), async () => ({ result: 2 }));
+    expect(messages.map((message: { role: string }) => message.role)).toEqual(['user', 'assistant', 'tool', 'assistant', 'user']);
+    expect(messages[1].tool_calls[0].id).toBe('call-1');
+    expect(messages[2].tool_call_id).toBe('call-1');
+  });
+
+  it('drops tool calls that are not run when there is no executor', async () => {
+    const messages = await nextRequestMessages(streamOf(toolCallEvent('tool_calls')));
+    expect(messages.map((message: { role: string }) => message.role)).toEqual(['user', 'assistant', 'user']);
+    expect(messages[1].tool_calls).toBeUndefined();
+  });
+
+  it('drops tool calls cut off by the token limit', async () => {
+    const messages = await nextRequestMessages(streamOf(toolCallEvent('length')), async () => ({ result: 2 }));
+    expect(messages.map((message: { role: string }) => message.role)).toEqual(['user', 'assistant', 'user']);
+    expect(messages[1].tool_calls).toBeUndefined();
+  });
+});
@@ -0,0 +1,360 @@
+import { ChatMessage, ChatMessageRole, ResponseFinish, TokenUsage } from "../../types";
+import { toAlphaMask } from "../../utils/imageMask";
+import { createHttpError } from "../aiErrors";
+import { addUsage, EMPTY_USAGE } from "../usageTracker";
+import { ChatSession, ChatSessionOptions, ChatStreamChunk, ImageCapabilities, ImageGenerationOptions, InlineData, ModelProvider, ProviderSettings, UnsupportedFeatureError } from "./types";
+
+// Talks to any server implementing the OpenAI HTTP API (`/chat/completions`, `/images/generations`, `/images/edits`),
+// such as a self-hosted gateway or a local mock server.
+
+type OpenAiContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+interface OpenAiToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+interface OpenAiMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | OpenAiContentPart[] | null;
+  tool_calls?: OpenAiToolCall[];
+  tool_call_id?: string;
+}
+
+// Upper bound on model/tool round trips for a single prompt, so a misbehaving model cannot loop forever.
+const MAX_TOOL_ROUNDS = 5;
+
+// OpenAI's image models differ in the sizes and response options they accept. Other names are assumed to be
+// self-hosted servers, which get DALL·E 3 sizes and no format options.
+type ImageModelFamily = 'gpt-image' | 'dall-e-3' | 'dall-e-2' | 'other';
+
+const getImageModelFamily = (model: string): ImageModelFamily =>
+  model.startsWith('gpt-image') ? 'gpt-image'
+    : model === 'dall-e-3' ? 'dall-e-3'
+    : model === 'dall-e-2' ? 'dall-e-2'
+    : 'other';
+
+// OpenAI image endpoints take pixel sizes instead of aspect ratios. DALL·E 2 only makes squares.
+const GPT_IMAGE_SIZES: Record<string, string> = {
+  '1:1': '1024x1024',
+  '16:9': '1536x1024',
+  '4:3': '1536x1024',
+  '9:16': '1024x1536',
+  '3:4': '1024x1536',
+};
+
+const DALL_E_3_SIZES: Record<string, string> = {
+  '1:1': '1024x1024',
+  '16:9': '1792x1024',
+  '4:3': '1792x1024',
+  '9:16': '1024x1792',
+  '3:4': '1024x1792',
+};
+
+const getImageSize = (family: ImageModelFamily, aspectRatio: string): string => {
+  if (family === 'dall-e-2') return '1024x1024';
+  const sizes = family === 'gpt-image' ? GPT_IMAGE_SIZES : DALL_E_3_SIZES;
+  return sizes[aspectRatio] ?? sizes['1:1'];
+};
+
+// gpt-image models always return base64 and take an output format; DALL·E returns PNG and must be asked for base64.
+const getImageFormatParameters = (family: ImageModelFamily, outputMimeType: string): Record<string, string> =>
+  family === 'gpt-image' ? { output_format: outputMimeType.replace('image/', '') }
+    : family === 'dall-e-3' || family === 'dall-e-2' ? { response_format: 'b64_json' }
+    : {};
+
+// Only gpt-image models can return anything but PNG.
+const getImageCapabilities = (model: string): ImageCapabilities => ({
+  maxImages: 4,
+  outputMimeTypes: getImageModelFamily(model) === 'gpt-image' ? ['image/png', 'image/jpeg', 'image/webp'] : ['image/png'],
+  // `negative_prompt` and `seed` are not part of the OpenAI API but are accepted by most self-hosted image servers.
+  negativePrompt: true,
+  seed: true,
+});
+
+export const toImageGenerationBody = (model: string, prompt: string, options: ImageGenerationOptions) => {
+  const family = getImageModelFamily(model);
+  return {
+    model,
+    prompt,
+    n: options.numberOfImages,
+    size: getImageSize(family, options.aspectRatio),
+    ...getImageFormatParameters(family, options.outputMimeType),
+    ...(options.negativePrompt ? { negative_prompt: options.negativePrompt } : {}),
+    ...(options.seed !== undefined ? { seed: options.seed } : {}),
+  };
+};
+
+// DALL·E 3 makes one image per request, so a batch becomes that many single-image requests.
+export const splitImageRequests = (model: string, options: ImageGenerationOptions): ImageGenerationOptions[] =>
+  getImageModelFamily(model) === 'dall-e-3'
+    ? Array.from({ length: options.numberOfImages }, () => ({ ...options, numberOfImages: 1 }))
+    : [options];
+
+// Multipart fields of an edit request, without the image and mask files.
+export const toImageEditFields = (model: string, prompt: string): Record<string, string> => ({
+  model,
+  prompt,
+  ...getImageFormatParameters(getImageModelFamily(model), 'image/png'),
+});
+
+// `stop` and `tool_calls` are normal endings; anything else is reported on the reply.
+const toResponseFinish = (finishReason: string | null | undefined): ResponseFinish | undefined => {
+  switch (finishReason) {
+    case null:
+    case undefined:
+    case 'stop':
+    case 'tool_calls':
+    case 'function_call':
+      return undefined;
+    case 'length':
+      return { reason: 'max-tokens', detail: finishReason };
+    case 'content_filter':
+      return { reason: 'safety', detail: finishReason };
+    default:
+      return { reason: 'other', detail: finishReason };
+  }
+};
+
+interface OpenAiUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  prompt_tokens_details?: { cached_tokens?: number };
+  completion_tokens_details?: { reasoning_tokens?: number };
+}
+
+// A fragment of a tool call; fragments with the same index are concatenated.
+interface OpenAiToolCallDelta {
+  index: number;
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+// One event of a streamed chat completion. Servers that report usage send it in a final event without choices.
+interface OpenAiStreamEvent {
+  choices?: {
+    delta?: { content?: string | null; tool_calls?: OpenAiToolCallDelta[] };
+    finish_reason?: string | null;
+  }[];
+  usage?: OpenAiUsage;
+}
+
+// Reasoning tokens are included in `completion_tokens`, so they are split out to avoid counting them twice.
+const toTokenUsage = (usage: OpenAiUsage): TokenUsage => {
+  const thinkingTokens = usage.completion_tokens_details?.reasoning_tokens ?? 0;
+  return {
+    promptTokens: usage.prompt_tokens ?? 0,
+    responseTokens: (usage.completion_tokens ?? 0) - thinkingTokens,
+    cachedTokens: usage.prompt_tokens_details?.cached_tokens ?? 0,
+    thinkingTokens,
+  };
+};
+
+const toOpenAiMessages = (messages: ChatMessage[]): OpenAiMessage[] =>
+  messages
+    .filter(m => !m.isLoading && m.text.trim())
+    .map(m => ({ role: m.role === ChatMessageRole.USER ? 'user' : 'assistant', content: m.text }));
+
+// The chat completions API only accepts images and text inline, so text documents are decoded into the prompt.
+const toContentPart = (attachment: InlineData): OpenAiContentPart => {
+  if (attachment.mimeType.startsWith('image/')) {
+    return { type: 'image_url', image_url: { url: `data:${attachment.mimeType};base64,${attachment.data}` } };
+  }
+  if (attachment.mimeType.startsWith('text/') || attachment.mimeType === 'application/json') {
+    const bytes = Uint8Array.from(atob(attachment.data), c => c.charCodeAt(0));
+    return { type: 'text', text: new TextDecoder().decode(bytes) };
+  }
+  throw new UnsupportedFeatureError('openai-compatible', `${attachment.mimeType} attachments`);
+};
+
+const base64ToBlob = (image: InlineData): Blob => {
+  const binary = atob(image.data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: image.mimeType });
+};
+
+// Yields the JSON payload of every `data:` line in a server-sent event stream until `[DONE]`.
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<OpenAiStreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) continue;
+      const payload = trimmed.slice(5).trim();
+      if (payload === '[DONE]') return;
+      yield JSON.parse(payload);
+    }
+  }
+}
+
+export const createOpenAiCompatibleProvider = (settings: ProviderSettings): ModelProvider => {
+  const baseUrl = settings.baseUrl.replace(/\/+$/, '');
+  const authHeaders: Record<string, string> = settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {};
+
+  const request = async (path: string, init: RequestInit): Promise<Response> => {
+    const response = await fetch(`${baseUrl}${path}`, { ...init, headers: { ...authHeaders, ...init.headers } });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw createHttpError(response.status, detail, response.headers.get('Retry-After'));
+    }
+    return response;
+  };
+
+  const postJson = (path: string, body: unknown, signal?: AbortSignal) =>
+    request(path, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body), signal });
+
+  const readImages = async (response: Response, mimeType = 'image/png'): Promise<string[]> => {
+    const json = await response.json();
+    const images: string[] = (json.data ?? [])
+      .map((image: { b64_json?: string; url?: string }) => image.b64_json ? `data:${mimeType};base64,${image.b64_json}` : image.url)
+      .filter(Boolean);
+    if (images.length === 0) throw new Error("No image returned from the provider.");
+    return images;
+  };
+
+  const createChatSession = (messages: ChatMessage[], options: ChatSessionOptions = {}): ChatSession => {
+    const history: OpenAiMessage[] = [
+      ...(options.systemInstruction ? [{ role: 'system' as const, content: options.systemInstruction }] : []),
+      ...toOpenAiMessages(messages),
+    ];
+    // Thinking budgets and search grounding have no equivalent in the OpenAI API and are ignored.
+    const parameters = {
+      model: options.model || settings.chatModel,
+      ...(options.temperature !== undefined ? { temperature: options.temperature } : {}),
+      ...(options.topP !== undefined ? { top_p: options.topP } : {}),
+      ...(options.maxOutputTokens !== undefined ? { max_tokens: options.maxOutputTokens } : {}),
+    };
+    const tools = options.tools?.length
+      ? options.tools.map(({ name, description, parameters }) => ({ type: 'function', function: { name, description, parameters } }))
+      : undefined;
+    // Servers that support it report usage in a final event without choices.
+    const complete = (signal?: AbortSignal) =>
+      postJson('/chat/completions', { ...parameters, messages: history, stream: true, stream_options: { include_usage: true }, ...(tools ? { tools } : {}) }, signal);
+
+    return {
+      model: parameters.model,
+      sendMessageStream: async (message, attachments = [], signal, executeTool) => {
+        const content = attachments.length > 0
+          ? [...attachments.map(toContentPart), { type: 'text' as const, text: message }]
+          : message;
+        history.push({ role: 'user', content });
+        let response: Response;
+        try {
+          response = await complete(signal);
+        } catch (error) {
+          history.pop();
+          throw error;
+        }
+        return (async function* (): AsyncGenerator<ChatStreamChunk> {
+          let usage = EMPTY_USAGE;
+          for (let round = 0; ; round++) {
+            let reply = '';
+            // Tool call deltas arrive in fragments keyed by index and are concatenated.
+            const toolCalls: OpenAiToolCall[] = [];
+            let finish: ResponseFinish | undefined;
+            for await (const event of readServerSentEvents(response.body!)) {
+              if (event.usage) {
+                usage = addUsage(usage, toTokenUsage(event.usage));
+                yield { text: '', usage };
+              }
+              finish = toResponseFinish(event.choices?.[0]?.finish_reason) ?? finish;
+              const delta = event.choices?.[0]?.delta;
+              for (const fragment of delta?.tool_calls ?? []) {
+                const call = toolCalls[fragment.index] ??= { id: '', type: 'function', function: { name: '', arguments: '' } };
+                call.id += fragment.id ?? '';
+                call.function.name += fragment.function?.name ?? '';
+                call.function.arguments += fragment.function?.arguments ?? '';
+              }
+              const text = delta?.content ?? '';
+              reply += text;
+              yield { text, ...(finish ? { finish } : {}) };
+            }
+            // Calls are kept in the history only when they are answered: servers reject tool calls without tool messages.
+            if (toolCalls.length === 0 || !executeTool || finish || round >= MAX_TOOL_ROUNDS) {
+              history.push({ role: 'assistant', content: reply });
+              if (toolCalls.length > 0 && executeTool && !finish) throw new Error('The model kept calling tools without answering. Please try again.');
+              return;
+            }
+            history.push({ role: 'assistant', content: reply || null, tool_calls: toolCalls });
+
+            for (const call of toolCalls) {
+              let args: Record<string, unknown> = {};
+              try {
+                args = JSON.parse(call.function.arguments || '{}');
+              } catch {
+                // Malformed arguments are passed on as empty; the tool reports what is missing.
+              }
+              const result = await executeTool({ id: call.id, name: call.function.name, args });
+              history.push({ role: 'tool', tool_call_id: call.id, content: JSON.stringify(result) });
+            }
+            response = await complete(signal);
+          }
+        })();
+      },
+    };
+  };
+
+  return {
+    kind: 'openai-compatible',
+    chatModels: [settings.chatModel],
+    imageModel: settings.imageModel,
+    imageEditModel: settings.imageEditModel,
+    videoModel: '',
+    speechModel: '',
+    transcriptionModel: '',
+    imageCapabilities: getImageCapabilities(settings.imageModel),
+    videoCapabilities: { models: [], resolutions: [], durations: [], maxReferenceImages: 0, lastFrame: false, extend: false },
+    createChatSession,
+    generateImage: async (prompt, options) => {
+      // Models without an output format option return PNG whatever was asked for.
+      const mimeType = getImageModelFamily(settings.imageModel) === 'gpt-image' ? options.outputMimeType : 'image/png';
+      const batches = await Promise.all(splitImageRequests(settings.imageModel, options).map(async batch =>
+        readImages(await postJson('/images/generations', toImageGenerationBody(settings.imageModel, prompt, batch)), mimeType)));
+      return batches.flat();
+    },
+    editImage: async (prompt, image, mask) => {
+      const form = new FormData();
+      for (const [name, value] of Object.entries(toImageEditFields(settings.imageEditModel, prompt))) {
+        form.append(name, value);
+      }
+      form.append('image', base64ToBlob(image), 'image');
+      if (mask) {
+        form.append('mask', await toAlphaMask(mask), 'mask.png');
+      }
+      const [edited] = await readImages(await request('/images/edits', { method: 'POST', body: form }));
+      return edited;
+    },
+    generateVideo: async () => {
+      throw new UnsupportedFeatureError('openai-compatible', 'video generation');
+    },
+    checkVideoStatus: async () => {
+      throw new UnsupportedFeatureError('openai-compatible', 'video generation');
+    },
+    downloadVideo: async () => {
+      throw new UnsupportedFeatureError('openai-compatible', 'video generation');
+    },
+    speechCapabilities: { voices: [], transcription: false },
+    generateSpeech: async () => {
+      throw new UnsupportedFeatureError('openai-compatible', 'speech generation');
+    },
+    transcribeAudio: async () => {
+      throw new UnsupportedFeatureError('openai-compatible', 'transcription');
+    },
+    connectLive: async () => {
+      throw new UnsupportedFeatureError('openai-compatible', 'live audio');
+    },
+  };
+};
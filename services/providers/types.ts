@@ -0,0 +1,218 @@
+import { ChatMessage, Citation, ResponseFinish, Source, TokenUsage } from '../../types';
+
+// Provider-neutral contracts shared by every model backend.
+// UI code talks to these types through `geminiService`, never to a vendor SDK directly.
+
+export type ProviderKind = 'gemini' | 'openai-compatible';
+
+// `direct` calls Google with a key stored in this browser; `proxy` goes through `server/proxy.mjs`, which holds the key.
+export type GeminiConnection = 'direct' | 'proxy';
+
+export interface ProviderSettings {
+  kind: ProviderKind;
+  geminiConnection: GeminiConnection;
+  geminiApiKey: string;
+  // Base URL of the local proxy server; also used by tools that fetch web pages.
+  proxyUrl: string;
+  // Only used by the OpenAI-compatible backend, e.g. `http://localhost:8080/v1`.
+  baseUrl: string;
+  apiKey: string;
+  chatModel: string;
+  imageModel: string;
+  imageEditModel: string;
+}
+
+export interface InlineData {
+  data: string;
+  mimeType: string;
+}
+
+export interface ChatStreamChunk {
+  text: string;
+  // When present, these replace any sources/citations reported by earlier chunks of the same reply.
+  sources?: Source[];
+  citations?: Citation[];
+  // Reported on the last chunk when the reply was blocked or cut short.
+  finish?: ResponseFinish;
+  // Running total for the whole reply; the last reported value is final.
+  usage?: TokenUsage;
+}
+
+// A function the chat model may call. `parameters` is a JSON Schema object describing the arguments.
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface ToolCallRequest {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+// Runs a tool call on behalf of the model and resolves to the response object sent back to it.
+export type ToolExecutor = (call: ToolCallRequest) => Promise<Record<string, unknown>>;
+
+export interface ChatSessionOptions {
+  // Falls back to the provider's default chat model when empty.
+  model?: string;
+  systemInstruction?: string;
+  temperature?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+  thinkingBudget?: number;
+  // Ground replies with web search where the backend supports it.
+  search?: boolean;
+  // When non-empty, the model may call these functions instead of using search grounding.
+  tools?: ToolDeclaration[];
+}
+
+export interface ChatSession {
+  // The model the session talks to, resolved from the options or the provider default.
+  model: string;
+  // Attachments are sent as inline parts of the same user turn as the text.
+  // Aborting the signal stops the request; the session should then be recreated from the stored history.
+  // Tool calls are answered through `executeTool` and the reply keeps streaming after each round.
+  sendMessageStream: (message: string, attachments?: InlineData[], signal?: AbortSignal, executeTool?: ToolExecutor) => Promise<AsyncGenerator<ChatStreamChunk>>;
+}
+
+export interface ImageGenerationOptions {
+  aspectRatio: string;
+  numberOfImages: number;
+  outputMimeType: string;
+  negativePrompt?: string;
+  seed?: number;
+}
+
+// Which image generation options a backend honours, so the UI can hide the rest.
+export interface ImageCapabilities {
+  maxImages: number;
+  outputMimeTypes: string[];
+  negativePrompt: boolean;
+  seed: boolean;
+}
+
+export type VideoAspectRatio = '16:9' | '9:16';
+
+export type VideoResolution = '720p' | '1080p';
+
+export interface VideoGenerationOptions {
+  model: string;
+  aspectRatio: VideoAspectRatio;
+  resolution: VideoResolution;
+  durationSeconds: number;
+  negativePrompt?: string;
+  // First frame of the clip; the video is generated from the prompt alone when omitted.
+  image?: InlineData;
+  // Final frame, only used together with `image`.
+  lastFrame?: InlineData;
+  // Subjects to keep consistent throughout the clip; cannot be combined with `image` or `lastFrame`.
+  referenceImages?: InlineData[];
+  // URI of an earlier generated video to continue; images are ignored when set.
+  extendVideoUri?: string;
+}
+
+// Which video generation options a backend honours. An empty model list means it cannot generate videos.
+export interface VideoCapabilities {
+  // The first model is the default.
+  models: { id: string; label: string }[];
+  resolutions: VideoResolution[];
+  durations: number[];
+  maxReferenceImages: number;
+  lastFrame: boolean;
+  extend: boolean;
+}
+
+// A serializable handle for a long-running video generation job.
+export interface VideoOperation {
+  name: string;
+  done: boolean;
+  videoUri?: string;
+  error?: string;
+}
+
+export interface SpeechCapabilities {
+  // Voices for `generateSpeech`, the first being the default; empty when the backend cannot synthesize speech.
+  voices: string[];
+  transcription: boolean;
+}
+
+// `usage` holds the tokens the call was billed for, when the backend reports them.
+export interface SpeechResult {
+  // Audio data URL.
+  url: string;
+  usage?: TokenUsage;
+}
+
+export interface TranscriptionResult {
+  text: string;
+  usage?: TokenUsage;
+}
+
+export interface LiveConnectOptions {
+  voiceName: string;
+  systemInstruction: string;
+  // Language name to answer in; the model follows the user's language when omitted.
+  language?: string;
+  // Disables automatic voice activity detection; turns are delimited with `startActivity`/`endActivity`.
+  pushToTalk?: boolean;
+  // Earlier chat turns sent as context before any audio, so voice continues the text conversation.
+  history?: ChatMessage[];
+}
+
+export interface LiveCallbacks {
+  onOpen: () => void;
+  onInputTranscription: (text: string) => void;
+  onOutputTranscription: (text: string) => void;
+  onAudio: (base64Pcm: string) => void;
+  onTurnComplete: () => void;
+  onInterrupted: () => void;
+  onError: (error: unknown) => void;
+  onClose: () => void;
+}
+
+export interface LiveSessionHandle {
+  sendAudio: (pcm: InlineData) => void;
+  // Mark the start and end of a push-to-talk turn.
+  startActivity: () => void;
+  endActivity: () => void;
+  close: () => void;
+}
+
+export interface ModelProvider {
+  kind: ProviderKind;
+  // Suggested chat models; the first one is the default.
+  chatModels: string[];
+  // Models used for media generation, for usage tracking.
+  imageModel: string;
+  imageEditModel: string;
+  // Default video model; `videoCapabilities` lists the alternatives.
+  videoModel: string;
+  speechModel: string;
+  transcriptionModel: string;
+  createChatSession: (history: ChatMessage[], options?: ChatSessionOptions) => ChatSession;
+  imageCapabilities: ImageCapabilities;
+  // Resolves to one data URL per generated image.
+  generateImage: (prompt: string, options: ImageGenerationOptions) => Promise<string[]>;
+  // The optional mask is a PNG of the same size as the image, white where the edit should apply and black elsewhere.
+  editImage: (prompt: string, image: InlineData, mask?: InlineData) => Promise<string>;
+  videoCapabilities: VideoCapabilities;
+  generateVideo: (prompt: string, options: VideoGenerationOptions) => Promise<VideoOperation>;
+  checkVideoStatus: (operation: VideoOperation) => Promise<VideoOperation>;
+  // Fetches a finished video so it can be stored with the message; the video URI itself requires a key.
+  downloadVideo: (videoUri: string) => Promise<Blob>;
+  speechCapabilities: SpeechCapabilities;
+  // Resolves to audio of the text read in the given voice.
+  generateSpeech: (text: string, voiceName: string) => Promise<SpeechResult>;
+  // Resolves to the words spoken in a recording.
+  transcribeAudio: (audio: InlineData) => Promise<TranscriptionResult>;
+  connectLive: (options: LiveConnectOptions, callbacks: LiveCallbacks) => Promise<LiveSessionHandle>;
+}
+
+export class UnsupportedFeatureError extends Error {
+  constructor(provider: ProviderKind, feature: string) {
+    super(`The ${provider} provider does not support ${feature}.`);
+    this.name = 'UnsupportedFeatureError';
+  }
+}
@@ -0,0 +1,58 @@
+import { EXPORT_FILE_TYPES, ExportFormat } from './conversationExport';
+
+// Commands typed into the chat composer. Parsing and validation live here; App carries the commands out.
+
+export type SlashCommandName = 'image' | 'edit' | 'video' | 'live' | 'search' | 'system' | 'export' | 'templates';
+
+export interface SlashCommandDefinition {
+  name: SlashCommandName;
+  // Argument placeholder shown in the palette; empty for commands without arguments.
+  usage: string;
+  description: string;
+  // Returns a message explaining why the arguments cannot be used.
+  validate?: (args: string) => string | undefined;
+}
+
+export interface SlashCommand {
+  name: SlashCommandName;
+  args: string;
+}
+
+const EXPORT_FORMATS = Object.keys(EXPORT_FILE_TYPES) as ExportFormat[];
+
+export const SLASH_COMMANDS: SlashCommandDefinition[] = [
+  { name: 'image', usage: '[prompt]', description: 'Generate an image in the chat, or open the image generator.' },
+  { name: 'edit', usage: '[instruction]', description: 'Edit the latest image in the conversation, or open the image editor.' },
+  { name: 'video', usage: '[prompt]', description: 'Generate a video from a prompt, or open the video generator.' },
+  { name: 'live', usage: '', description: 'Continue this conversation by voice.' },
+  {
+    name: 'search',
+    usage: 'on | off',
+    description: 'Turn Google Search grounding on or off for this conversation.',
+    validate: args => ['on', 'off'].includes(args.toLowerCase()) ? undefined : 'Use /search on or /search off.',
+  },
+  { name: 'system', usage: '[prompt | clear]', description: 'Set or clear the system prompt, or open the conversation settings.' },
+  {
+    name: 'export',
+    usage: `[${EXPORT_FORMATS.join(' | ')}]`,
+    description: 'Download this conversation, as Markdown unless another format is given.',
+    validate: args => !args || EXPORT_FORMATS.includes(args.toLowerCase() as ExportFormat) ? undefined : `Export formats are ${EXPORT_FORMATS.join(', ')}.`,
+  },
+  { name: 'templates', usage: '', description: 'Create, edit and delete prompt templates.' },
+];
+
+// Returns null unless the input starts with a known command, so text like a file path is sent as a normal message.
+export const parseSlashCommand = (input: string): SlashCommand | null => {
+  const match = input.trim().match(/^\/(\w+)(?:\s+([\s\S]*))?$/);
+  const definition = match && SLASH_COMMANDS.find(command => command.name === match[1].toLowerCase());
+  return definition ? { name: definition.name, args: match[2]?.trim() ?? '' } : null;
+};
+
+export const validateSlashCommand = (command: SlashCommand): string | undefined =>
+  SLASH_COMMANDS.find(definition => definition.name === command.name)?.validate?.(command.args);
+
+// Commands starting with what has been typed after the slash, while the command name is still being typed.
+export const matchSlashCommands = (input: string): SlashCommandDefinition[] => {
+  const match = input.match(/^\/(\w*)$/);
+  return match ? SLASH_COMMANDS.filter(command => command.name.startsWith(match[1].toLowerCase())) : [];
+};
@@ -0,0 +1,255 @@
+import { getProviderSettings } from '../geminiService';
+import type { ToolDefinition } from './registry';
+
+// Tools that are available to the chat model out of the box.
+
+const MAX_FETCHED_CHARACTERS = 20000;
+// HTML is read further before conversion, since most of a page is markup.
+const MAX_FETCHED_HTML_CHARACTERS = 500000;
+
+// Reads at most `limit` characters of a body and cancels the rest of the download.
+const readTextUpTo = async (response: Response, limit: number): Promise<{ text: string; complete: boolean }> => {
+  const reader = response.body?.getReader();
+  if (!reader) return { text: '', complete: true };
+  const decoder = new TextDecoder();
+  let text = '';
+  while (text.length <= limit) {
+    const { done, value } = await reader.read();
+    if (done) return { text: text + decoder.decode(), complete: true };
+    text += decoder.decode(value, { stream: true });
+  }
+  await reader.cancel();
+  return { text: text.slice(0, limit), complete: false };
+};
+
+export const requireString = (args: Record<string, unknown>, name: string): string => {
+  const value = args[name];
+  if (typeof value !== 'string' || !value.trim()) throw new Error(`"${name}" must be a non-empty string.`);
+  return value;
+};
+
+export const requireNumber = (args: Record<string, unknown>, name: string): number => {
+  const value = typeof args[name] === 'string' ? Number(args[name]) : args[name];
+  if (typeof value !== 'number' || Number.isNaN(value)) throw new Error(`"${name}" must be a number.`);
+  return value;
+};
+
+// --- Calculator ---
+
+const FUNCTIONS: Record<string, (x: number) => number> = {
+  sqrt: Math.sqrt, abs: Math.abs, round: Math.round, floor: Math.floor, ceil: Math.ceil,
+  sin: Math.sin, cos: Math.cos, tan: Math.tan, asin: Math.asin, acos: Math.acos, atan: Math.atan,
+  ln: Math.log, log: Math.log10, exp: Math.exp,
+};
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+// Evaluates an arithmetic expression with a small recursive-descent parser instead of `eval`.
+// Supports + - * / % ^, parentheses, unary minus, the functions above and `pi`/`e`.
+export const evaluateExpression = (expression: string): number => {
+  const tokens = expression.match(/\d+(?:\.\d+)?(?:e[+-]?\d+)?|\.\d+|[a-z]+|[-+*/%^()]/gi) ?? [];
+  if (tokens.join('') !== expression.replace(/\s+/g, '')) {
+    throw new Error(`Unsupported characters in "${expression}".`);
+  }
+  let position = 0;
+  const peek = () => tokens[position];
+  const take = () => tokens[position++];
+  const expect = (token: string) => {
+    if (take() !== token) throw new Error(`Expected "${token}" in "${expression}".`);
+  };
+
+  const parseSum = (): number => {
+    let value = parseProduct();
+    while (peek() === '+' || peek() === '-') {
+      value = take() === '+' ? value + parseProduct() : value - parseProduct();
+    }
+    return value;
+  };
+  const parseProduct = (): number => {
+    let value = parseUnary();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const operator = take();
+      const right = parseUnary();
+      value = operator === '*' ? value * right : operator === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+  // Unary minus binds looser than `^`, so `-2^2` is -4.
+  const parseUnary = (): number => {
+    if (peek() === '-') { take(); return -parseUnary(); }
+    if (peek() === '+') { take(); return parseUnary(); }
+    return parsePower();
+  };
+  const parsePower = (): number => {
+    const base = parsePrimary();
+    if (peek() === '^') { take(); return base ** parseUnary(); }
+    return base;
+  };
+  const parsePrimary = (): number => {
+    const token = take();
+    if (token === undefined) throw new Error(`Unexpected end of "${expression}".`);
+    if (token === '(') {
+      const value = parseSum();
+      expect(')');
+      return value;
+    }
+    if (/^[\d.]/.test(token)) return Number(token);
+    const name = token.toLowerCase();
+    if (FUNCTIONS[name]) {
+      expect('(');
+      const value = parseSum();
+      expect(')');
+      return FUNCTIONS[name](value);
+    }
+    if (name in CONSTANTS) return CONSTANTS[name];
+    throw new Error(`Unknown symbol "${token}".`);
+  };
+
+  const result = parseSum();
+  if (position < tokens.length) throw new Error(`Unexpected "${tokens[position]}" in "${expression}".`);
+  return result;
+};
+
+// --- Unit conversion ---
+
+// Factors to the base unit of each dimension (metre, kilogram, litre, metre per second, square metre, byte, second).
+const UNIT_FACTORS: Record<string, Record<string, number>> = {
+  length: { m: 1, km: 1000, cm: 0.01, mm: 0.001, mi: 1609.344, yd: 0.9144, ft: 0.3048, in: 0.0254, nmi: 1852 },
+  mass: { kg: 1, g: 0.001, mg: 1e-6, t: 1000, lb: 0.45359237, oz: 0.028349523125, st: 6.35029318 },
+  volume: { l: 1, ml: 0.001, m3: 1000, gal: 3.785411784, qt: 0.946352946, pt: 0.473176473, cup: 0.2365882365, floz: 0.0295735295625, tbsp: 0.01478676478125, tsp: 0.00492892159375 },
+  speed: { 'm/s': 1, 'km/h': 1 / 3.6, mph: 0.44704, kn: 1852 / 3600, 'ft/s': 0.3048 },
+  area: { m2: 1, km2: 1e6, ha: 1e4, acre: 4046.8564224, ft2: 0.09290304, mi2: 2589988.110336 },
+  data: { B: 1, KB: 1e3, MB: 1e6, GB: 1e9, TB: 1e12, KiB: 1024, MiB: 1024 ** 2, GiB: 1024 ** 3, TiB: 1024 ** 4 },
+  time: { s: 1, ms: 0.001, min: 60, h: 3600, day: 86400, week: 604800 },
+};
+
+const TEMPERATURE_TO_KELVIN: Record<string, (value: number) => number> = {
+  C: value => value + 273.15,
+  F: value => (value - 32) * 5 / 9 + 273.15,
+  K: value => value,
+};
+
+const TEMPERATURE_FROM_KELVIN: Record<string, (value: number) => number> = {
+  C: value => value - 273.15,
+  F: value => (value - 273.15) * 9 / 5 + 32,
+  K: value => value,
+};
+
+// Unit symbols are case-sensitive where it matters (`MB` vs `mb`), so an exact match wins over a case-insensitive one.
+const findUnit = (units: Record<string, unknown>, unit: string): string | undefined =>
+  unit in units ? unit : Object.keys(units).find(key => key.toLowerCase() === unit.toLowerCase());
+
+export const convertUnits = (value: number, from: string, to: string): { value: number; unit: string } => {
+  const fromTemperature = findUnit(TEMPERATURE_TO_KELVIN, from.replace('°', ''));
+  const toTemperature = findUnit(TEMPERATURE_FROM_KELVIN, to.replace('°', ''));
+  if (fromTemperature && toTemperature) {
+    return { value: TEMPERATURE_FROM_KELVIN[toTemperature](TEMPERATURE_TO_KELVIN[fromTemperature](value)), unit: toTemperature };
+  }
+  for (const units of Object.values(UNIT_FACTORS)) {
+    const fromUnit = findUnit(units, from);
+    const toUnit = findUnit(units, to);
+    if (fromUnit && toUnit) {
+      return { value: value * units[fromUnit] / units[toUnit], unit: toUnit };
+    }
+  }
+  throw new Error(`Cannot convert from "${from}" to "${to}".`);
+};
+
+// --- HTTP ---
+
+const htmlToText = (html: string): string =>
+  new DOMParser().parseFromString(html.replace(/<(script|style)[\s\S]*?<\/\1>/gi, ''), 'text/html').body.textContent?.replace(/\s+/g, ' ').trim() ?? '';
+
+export interface JsonEndpointToolConfig {
+  name: string;
+  description: string;
+  url: string;
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  // JSON Schema for the arguments. GET requests send them as query parameters, other methods as a JSON body.
+  parameters?: Record<string, unknown>;
+  headers?: Record<string, string>;
+  // Defaults to true for every method except GET.
+  sideEffects?: boolean;
+}
+
+// Creates a tool that calls one of our own JSON endpoints. Register it with `registerTool`.
+export const createJsonEndpointTool = ({ name, description, url, method = 'GET', parameters, headers, sideEffects }: JsonEndpointToolConfig): ToolDefinition => ({
+  name,
+  description,
+  parameters: parameters ?? { type: 'object', properties: {} },
+  sideEffects: sideEffects ?? method !== 'GET',
+  execute: async (args, { signal }) => {
+    const target = new URL(url, window.location.href);
+    if (method === 'GET') {
+      Object.entries(args).forEach(([key, value]) => target.searchParams.set(key, String(value)));
+    }
+    const response = await fetch(target, {
+      method,
+      signal,
+      headers: { Accept: 'application/json', ...(method === 'GET' ? {} : { 'Content-Type': 'application/json' }), ...headers },
+      body: method === 'GET' ? undefined : JSON.stringify(args),
+    });
+    if (!response.ok) throw new Error(`${name} failed with ${response.status}.`);
+    return response.json();
+  },
+});
+
+export const BUILTIN_TOOLS: ToolDefinition[] = [
+  {
+    name: 'calculator',
+    description: 'Evaluates an arithmetic expression exactly. Supports + - * / % ^, parentheses, sqrt, abs, round, floor, ceil, sin, cos, tan, asin, acos, atan, ln, log (base 10), exp, pi and e.',
+    parameters: {
+      type: 'object',
+      properties: { expression: { type: 'string', description: 'The expression to evaluate, e.g. "(3.5 + 2) * 4^2".' } },
+      required: ['expression'],
+    },
+    execute: async args => ({ value: evaluateExpression(requireString(args, 'expression')) }),
+  },
+  {
+    name: 'convert_units',
+    description: `Converts a value between units of the same dimension. Supported units: ${[...Object.values(UNIT_FACTORS).flatMap(Object.keys), 'C', 'F', 'K'].join(', ')}.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        value: { type: 'number' },
+        from: { type: 'string', description: 'Unit symbol to convert from, e.g. "mi".' },
+        to: { type: 'string', description: 'Unit symbol to convert to, e.g. "km".' },
+      },
+      required: ['value', 'from', 'to'],
+    },
+    execute: async args => convertUnits(requireNumber(args, 'value'), requireString(args, 'from'), requireString(args, 'to')),
+  },
+  {
+    name: 'fetch_url',
+    description: 'Fetches a web page or file with an HTTP GET request and returns its text content (HTML is converted to plain text). Works only while the local proxy server is running.',
+    parameters: {
+      type: 'object',
+      properties: { url: { type: 'string', description: 'Absolute http(s) URL.' } },
+      required: ['url'],
+    },
+    execute: async (args, { signal }) => {
+      const url = requireString(args, 'url');
+      if (!/^https?:\/\//i.test(url)) throw new Error('Only http and https URLs can be fetched.');
+      // Remote pages are fetched through the local proxy, since browsers block most cross-origin requests.
+      // The proxy is needed for this tool even when Gemini itself is called directly.
+      const proxyUrl = getProviderSettings().proxyUrl.replace(/\/+$/, '');
+      let response: Response;
+      try {
+        response = await fetch(`${proxyUrl}/proxy?url=${encodeURIComponent(url)}`, { signal });
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        throw new Error(`The local proxy server at ${proxyUrl} is not reachable, so pages cannot be fetched. Tell the user to start it with "npm run proxy".`);
+      }
+      const contentType = response.headers.get('Content-Type') ?? '';
+      const isHtml = contentType.includes('html');
+      const body = await readTextUpTo(response, isHtml ? MAX_FETCHED_HTML_CHARACTERS : MAX_FETCHED_CHARACTERS);
+      const text = isHtml ? htmlToText(body.text) : body.text;
+      return {
+        status: response.status,
+        contentType,
+        content: text.slice(0, MAX_FETCHED_CHARACTERS),
+        truncated: !body.complete || text.length > MAX_FETCHED_CHARACTERS,
+      };
+    },
+  },
+];
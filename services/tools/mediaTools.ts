@@ -0,0 +1,112 @@
+import { editImage, generateImage, getActiveProvider } from '../geminiService';
+import { addToLibrary } from '../mediaLibrary';
+import { getDefaultVideoOptions, startVideoJob } from '../videoJobs';
+import { imageUrlToMedia, mediaToDataUrl, parseDataUrl } from '../../utils/mediaHelpers';
+import type { VideoAspectRatio } from '../providers/types';
+import type { ToolContext, ToolDefinition } from './registry';
+import { requireString } from './builtinTools';
+
+// Tools that let the chat model create media itself. Results are attached to the reply that made the call,
+// and the model is told about them in the function response. Every call is a paid job, so the user confirms it first.
+
+const IMAGE_ASPECT_RATIOS = ['1:1', '16:9', '9:16', '4:3', '3:4'];
+const VIDEO_ASPECT_RATIOS: VideoAspectRatio[] = ['16:9', '9:16'];
+
+const IMAGE_INDEX_PARAMETER = {
+  type: 'integer',
+  description: 'Which image in the conversation to use, counted back from the most recent one: 1 (the default) is the latest image.',
+};
+
+// Resolves an `image_index` argument to the inline bytes of that image.
+const pickImage = async (args: Record<string, unknown>, { images }: ToolContext) => {
+  const index = typeof args.image_index === 'number' ? args.image_index : 1;
+  const media = images[images.length - index];
+  if (!media) {
+    throw new Error(images.length === 0 ? 'There is no image in the conversation yet. Ask the user to attach one or generate one first.' : `There is no image number ${index}; the conversation has ${images.length}.`);
+  }
+  const inline = parseDataUrl(await mediaToDataUrl(media));
+  if (!inline) throw new Error('That image could not be read.');
+  return inline;
+};
+
+export const MEDIA_TOOLS: ToolDefinition[] = [
+  {
+    name: 'generate_image',
+    description: 'Generates new images from a text description. Use this when the user asks to draw, create or imagine a picture.',
+    parameters: {
+      type: 'object',
+      properties: {
+        prompt: { type: 'string', description: 'Detailed description of the image.' },
+        aspect_ratio: { type: 'string', enum: IMAGE_ASPECT_RATIOS },
+        number_of_images: { type: 'integer', minimum: 1, maximum: 4 },
+      },
+      required: ['prompt'],
+    },
+    sideEffects: true,
+    billed: true,
+    execute: async (args, context) => {
+      const prompt = requireString(args, 'prompt');
+      const aspectRatio = IMAGE_ASPECT_RATIOS.includes(args.aspect_ratio as string) ? args.aspect_ratio as string : '1:1';
+      const numberOfImages = Math.min(Math.max(Number(args.number_of_images) || 1, 1), 4);
+      const urls = await generateImage(prompt, { aspectRatio, numberOfImages, outputMimeType: 'image/jpeg' }, context.conversationId);
+      context.attachMedia(urls.map(url => imageUrlToMedia(url, prompt)));
+      urls.forEach(url => addToLibrary(url, { source: 'generated', prompt, model: getActiveProvider().imageModel, aspectRatio, conversationId: context.conversationId }));
+      return { images: urls.length, note: 'The images are shown to the user in this reply. Do not describe them as missing.' };
+    },
+  },
+  {
+    name: 'edit_image',
+    description: 'Edits an image from the conversation (attached by the user or generated earlier) according to an instruction.',
+    parameters: {
+      type: 'object',
+      properties: {
+        prompt: { type: 'string', description: 'What to change, e.g. "make the sky stormy".' },
+        image_index: IMAGE_INDEX_PARAMETER,
+      },
+      required: ['prompt'],
+    },
+    sideEffects: true,
+    billed: true,
+    execute: async (args, context) => {
+      const prompt = requireString(args, 'prompt');
+      const url = await editImage(prompt, await pickImage(args, context), undefined, context.conversationId);
+      context.attachMedia([imageUrlToMedia(url, prompt)]);
+      addToLibrary(url, { source: 'edited', prompt, model: getActiveProvider().imageEditModel, conversationId: context.conversationId });
+      return { note: 'The edited image is shown to the user in this reply.' };
+    },
+  },
+  {
+    name: 'generate_video',
+    description: 'Generates a short video clip from a text description, optionally animating an image from the conversation. Generation runs in the background for a few minutes.',
+    parameters: {
+      type: 'object',
+      properties: {
+        prompt: { type: 'string', description: 'What should happen in the clip.' },
+        aspect_ratio: { type: 'string', enum: VIDEO_ASPECT_RATIOS },
+        image_index: {
+          type: 'integer',
+          description: 'Image to use as the first frame, counted back from the most recent one: 1 is the latest image. Omit to generate the video from the prompt alone.',
+        },
+      },
+      required: ['prompt'],
+    },
+    sideEffects: true,
+    billed: true,
+    execute: async (args, context) => {
+      const prompt = requireString(args, 'prompt');
+      const aspectRatio = VIDEO_ASPECT_RATIOS.find(ratio => ratio === args.aspect_ratio) ?? '16:9';
+      startVideoJob({
+        prompt,
+        options: {
+          ...getDefaultVideoOptions(),
+          aspectRatio,
+          image: args.image_index === undefined ? undefined : await pickImage(args, context),
+        },
+        conversationId: context.conversationId,
+        messageId: context.messageId,
+        attachToReply: true,
+      });
+      return { status: 'started', note: 'The video is being generated and will appear in this reply when it is ready, usually within a few minutes.' };
+    },
+  },
+];
@@ -0,0 +1,64 @@
+import { Media } from '../../types';
+import type { ToolCallRequest, ToolDeclaration } from '../providers/types';
+import { BUILTIN_TOOLS } from './builtinTools';
+import { MEDIA_TOOLS } from './mediaTools';
+
+// Functions the chat model can call. Tools are registered by name; the app runs the handler
+// and sends its result back to the model as the function response.
+
+// What a running tool can see of, and add to, the reply that called it.
+export interface ToolContext {
+  signal?: AbortSignal;
+  conversationId: string;
+  messageId: string;
+  // Images in the conversation so far, oldest first, including ones attached earlier in this reply.
+  images: Media[];
+  attachMedia: (media: Media[]) => void;
+}
+
+export interface ToolDefinition extends ToolDeclaration {
+  // Tools that change something outside the app or start paid jobs only run after the user confirms the call.
+  sideEffects?: boolean;
+  // Tools that start paid generation jobs are also held to the daily budget from the usage dashboard.
+  billed?: boolean;
+  // Resolves to a JSON-serializable result; thrown errors are reported back to the model.
+  execute: (args: Record<string, unknown>, context: ToolContext) => Promise<unknown>;
+}
+
+const TOOLS_ENABLED_KEY = 'tamur-ai:tools-enabled';
+
+const tools = new Map<string, ToolDefinition>([...BUILTIN_TOOLS, ...MEDIA_TOOLS].map(tool => [tool.name, tool]));
+
+export const registerTool = (tool: ToolDefinition) => {
+  tools.set(tool.name, tool);
+};
+
+export const unregisterTool = (name: string) => {
+  tools.delete(name);
+};
+
+export const getTool = (name: string): ToolDefinition | undefined => tools.get(name);
+
+export const listTools = (): ToolDefinition[] => [...tools.values()];
+
+export const getToolDeclarations = (): ToolDeclaration[] =>
+  listTools().map(({ name, description, parameters }) => ({ name, description, parameters }));
+
+export const runTool = async (call: ToolCallRequest, context: ToolContext): Promise<Record<string, unknown>> => {
+  const tool = tools.get(call.name);
+  if (!tool) {
+    return { error: `Unknown tool "${call.name}".` };
+  }
+  try {
+    return { result: await tool.execute(call.args, context) };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+// Tool use replaces search grounding for the chat, so it is opt-in and remembered across reloads.
+export const isToolUseEnabled = (): boolean => localStorage.getItem(TOOLS_ENABLED_KEY) === 'true';
+
+export const setToolUseEnabled = (enabled: boolean) => {
+  localStorage.setItem(TOOLS_ENABLED_KEY, String(enabled));
+};
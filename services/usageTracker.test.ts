@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { estimateCost, PriceTable, summarizeByDay, summarizeByModel, summarizeConversation, UsageRecord } from './usageTracker';
+
+const prices: PriceTable = {
+  'chat-model': { inputPerMillion: 1, cachedInputPerMillion: 0.25, outputPerMillion: 10 },
+  'uncached-model': { inputPerMillion: 2, outputPerMillion: 4 },
+  'image-model': { perImage: 0.04 },
+  'video-model': { perVideo: 1.2 },
+};
+
+const usage = (promptTokens: number, responseTokens: number, cachedTokens = 0, thinkingTokens = 0) =>
+  ({ promptTokens, responseTokens, cachedTokens, thinkingTokens });
+
+// Local time, so records land on the expected calendar day in any time zone.
+const at = (day: number, hour = 12) => new Date(2026, 0, day, hour).getTime();
+
+describe('estimateCost', () => {
+  it('prices cached prompt tokens at the cached rate and the rest at the input rate', () => {
+    // 600k uncached at $1/M plus 400k cached at $0.25/M.
+    expect(estimateCost('chat-model', usage(1_000_000, 0, 400_000), 0, 'chat', prices)).toBeCloseTo(0.7, 10);
+  });
+
+  it('falls back to the input rate for cached tokens when there is no cached price', () => {
+    expect(estimateCost('uncached-model', usage(1_000_000, 0, 400_000), 0, 'chat', prices)).toBeCloseTo(2, 10);
+  });
+
+  it('bills thinking tokens as output', () => {
+    expect(estimateCost('chat-model', usage(0, 100_000, 0, 200_000), 0, 'chat', prices)).toBeCloseTo(3, 10);
+  });
+
+  it('prices images and videos per item by kind', () => {
+    expect(estimateCost('image-model', undefined, 3, 'image', prices)).toBeCloseTo(0.12, 10);
+    expect(estimateCost('image-model', undefined, 1, 'image-edit', prices)).toBeCloseTo(0.04, 10);
+    expect(estimateCost('video-model', undefined, 2, 'video', prices)).toBeCloseTo(2.4, 10);
+    // A video price does not apply to images of the same model, and vice versa.
+    expect(estimateCost('video-model', undefined, 2, 'image', prices)).toBe(0);
+    expect(estimateCost('image-model', undefined, 2, 'video', prices)).toBe(0);
+  });
+
+  it('costs nothing for models missing from the price table', () => {
+    expect(estimateCost('unknown-model', usage(1_000_000, 1_000_000), 4, 'image', prices)).toBe(0);
+  });
+});
+
+describe('summaries', () => {
+  const records: UsageRecord[] = [
+    { timestamp: at(1, 9), kind: 'chat', model: 'chat-model', usage: usage(1_000_000, 100_000), conversationId: 'a' },
+    { timestamp: at(1, 18), kind: 'image', model: 'image-model', count: 2, conversationId: 'a' },
+    { timestamp: at(2), kind: 'image-edit', model: 'image-model', count: 1, conversationId: 'b' },
+    { timestamp: at(2), kind: 'video', model: 'video-model', count: 1, conversationId: 'a' },
+    { timestamp: at(3), kind: 'speech', model: 'uncached-model', usage: usage(1_000_000, 250_000) },
+  ];
+
+  it('totals each day, newest first, counting images and videos by kind', () => {
+    const days = summarizeByDay(records, prices);
+    expect(days.map(([day]) => day)).toEqual(['2026-01-03', '2026-01-02', '2026-01-01']);
+    const [, second, first] = days.map(([, totals]) => totals);
+    expect(first.usage).toEqual(usage(1_000_000, 100_000));
+    expect(first.images).toBe(2);
+    expect(first.cost).toBeCloseTo(2 + 0.08, 10);
+    expect(second.images).toBe(1);
+    expect(second.videos).toBe(1);
+    expect(second.cost).toBeCloseTo(0.04 + 1.2, 10);
+  });
+
+  it('totals each model, most expensive first', () => {
+    const models = summarizeByModel(records, prices);
+    expect(models.map(([model]) => model)).toEqual(['uncached-model', 'chat-model', 'video-model', 'image-model']);
+    expect(models.find(([model]) => model === 'image-model')?.[1]).toMatchObject({ images: 3, videos: 0 });
+  });
+
+  it('totals a conversation from the records made for it', () => {
+    const conversation = summarizeConversation('a', records, prices);
+    expect(conversation.usage).toEqual(usage(1_000_000, 100_000));
+    expect(conversation.images).toBe(2);
+    expect(conversation.videos).toBe(1);
+    expect(conversation.cost).toBeCloseTo(2 + 0.08 + 1.2, 10);
+    expect(summarizeConversation('missing', records, prices)).toMatchObject({ images: 0, videos: 0, cost: 0 });
+  });
+
+  it('adds up to the same total per day, per model and over all conversations', () => {
+    const total = (rows: [string, { cost: number }][]) => rows.reduce((sum, [, totals]) => sum + totals.cost, 0);
+    const unattributed = summarizeByDay(records.filter(record => !record.conversationId), prices);
+    const byConversation = summarizeConversation('a', records, prices).cost + summarizeConversation('b', records, prices).cost + total(unattributed);
+    expect(total(summarizeByModel(records, prices))).toBeCloseTo(total(summarizeByDay(records, prices)), 10);
+    expect(byConversation).toBeCloseTo(total(summarizeByDay(records, prices)), 10);
+  });
+});
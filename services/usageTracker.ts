@@ -0,0 +1,164 @@
+import { TokenUsage } from '../types';
+
+// Records token usage and media generations locally, and estimates their cost from an editable price table.
+// Estimates are only as good as the table; they ignore free tiers, long-context surcharges and taxes.
+
+export type UsageKind = 'chat' | 'image' | 'image-edit' | 'video' | 'speech' | 'transcription';
+
+export interface UsageRecord {
+  timestamp: number;
+  kind: UsageKind;
+  model: string;
+  usage?: TokenUsage;
+  // Images or videos produced by the call.
+  count?: number;
+  // Conversation the call was made for, when there is one.
+  conversationId?: string;
+}
+
+// US dollars. Token prices are per million tokens; media prices are per generated item.
+export interface ModelPrice {
+  inputPerMillion?: number;
+  cachedInputPerMillion?: number;
+  // Also applied to thinking tokens.
+  outputPerMillion?: number;
+  perImage?: number;
+  perVideo?: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+export interface UsageBudget {
+  // Warn before sending once the estimated spend for the current day reaches this amount.
+  dailyLimit?: number;
+}
+
+export interface UsageTotals {
+  usage: TokenUsage;
+  images: number;
+  videos: number;
+  cost: number;
+}
+
+const USAGE_LOG_KEY = 'tamur-ai:usage-log';
+const PRICE_TABLE_KEY = 'tamur-ai:price-table';
+const BUDGET_KEY = 'tamur-ai:usage-budget';
+// Older records are dropped so the log stays small enough for local storage.
+const RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+
+// Published list prices at the time of writing; update them in the dashboard when they change.
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  'gemini-2.5-pro': { inputPerMillion: 1.25, cachedInputPerMillion: 0.31, outputPerMillion: 10 },
+  'gemini-2.5-flash': { inputPerMillion: 0.3, cachedInputPerMillion: 0.075, outputPerMillion: 2.5 },
+  'gemini-2.5-flash-lite': { inputPerMillion: 0.1, cachedInputPerMillion: 0.025, outputPerMillion: 0.4 },
+  // Text in, audio out. Transcription uses gemini-2.5-flash, whose audio input costs more than the text price above.
+  'gemini-2.5-flash-preview-tts': { inputPerMillion: 0.5, outputPerMillion: 10 },
+  // About 1290 output tokens at $30 per million.
+  'gemini-2.5-flash-image': { perImage: 0.039 },
+  'imagen-4.0-generate-001': { perImage: 0.04 },
+  // 8 seconds at $0.15 per second.
+  'veo-3.1-fast-generate-preview': { perVideo: 1.2 },
+  // 8 seconds at $0.40 per second.
+  'veo-3.1-generate-preview': { perVideo: 3.2 },
+};
+
+export const EMPTY_USAGE: TokenUsage = { promptTokens: 0, responseTokens: 0, cachedTokens: 0, thinkingTokens: 0 };
+
+export const addUsage = (a: TokenUsage, b: TokenUsage): TokenUsage => ({
+  promptTokens: a.promptTokens + b.promptTokens,
+  responseTokens: a.responseTokens + b.responseTokens,
+  cachedTokens: a.cachedTokens + b.cachedTokens,
+  thinkingTokens: a.thinkingTokens + b.thinkingTokens,
+});
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : fallback;
+  } catch (error) {
+    console.warn(`Could not read ${key}.`, error);
+    return fallback;
+  }
+};
+
+const writeJson = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Could not save ${key}.`, error);
+  }
+};
+
+export const listUsageRecords = (): UsageRecord[] => readJson<UsageRecord[]>(USAGE_LOG_KEY, []);
+
+export const recordUsage = (record: Omit<UsageRecord, 'timestamp'>) => {
+  const cutoff = Date.now() - RETENTION_MS;
+  writeJson(USAGE_LOG_KEY, [...listUsageRecords().filter(r => r.timestamp >= cutoff), { ...record, timestamp: Date.now() }]);
+};
+
+export const clearUsageRecords = () => {
+  localStorage.removeItem(USAGE_LOG_KEY);
+};
+
+// Entries saved by the user override the defaults model by model.
+export const getPriceTable = (): PriceTable => ({ ...DEFAULT_PRICE_TABLE, ...readJson<PriceTable>(PRICE_TABLE_KEY, {}) });
+
+export const setPriceTable = (prices: PriceTable) => writeJson(PRICE_TABLE_KEY, prices);
+
+export const getUsageBudget = (): UsageBudget => readJson<UsageBudget>(BUDGET_KEY, {});
+
+export const setUsageBudget = (budget: UsageBudget) => writeJson(BUDGET_KEY, budget);
+
+export const estimateCost = (model: string, usage: TokenUsage | undefined, count = 0, kind: UsageKind = 'chat', prices = getPriceTable()): number => {
+  const price = prices[model];
+  if (!price) return 0;
+  let cost = 0;
+  if (usage) {
+    const uncachedPrompt = usage.promptTokens - usage.cachedTokens;
+    cost += uncachedPrompt * (price.inputPerMillion ?? 0) / 1e6;
+    cost += usage.cachedTokens * (price.cachedInputPerMillion ?? price.inputPerMillion ?? 0) / 1e6;
+    cost += (usage.responseTokens + usage.thinkingTokens) * (price.outputPerMillion ?? 0) / 1e6;
+  }
+  cost += count * ((kind === 'video' ? price.perVideo : price.perImage) ?? 0);
+  return cost;
+};
+
+const emptyTotals = (): UsageTotals => ({ usage: EMPTY_USAGE, images: 0, videos: 0, cost: 0 });
+
+const addRecord = (totals: UsageTotals, record: UsageRecord, prices: PriceTable): UsageTotals => ({
+  usage: record.usage ? addUsage(totals.usage, record.usage) : totals.usage,
+  images: totals.images + (record.kind === 'image' || record.kind === 'image-edit' ? record.count ?? 0 : 0),
+  videos: totals.videos + (record.kind === 'video' ? record.count ?? 0 : 0),
+  cost: totals.cost + estimateCost(record.model, record.usage, record.count, record.kind, prices),
+});
+
+const dayKey = (timestamp: number) => new Date(timestamp).toLocaleDateString('en-CA');
+
+// Totals per local calendar day (`YYYY-MM-DD`), newest first.
+export const summarizeByDay = (records = listUsageRecords(), prices = getPriceTable()): [string, UsageTotals][] => {
+  const days = new Map<string, UsageTotals>();
+  for (const record of records) {
+    const key = dayKey(record.timestamp);
+    days.set(key, addRecord(days.get(key) ?? emptyTotals(), record, prices));
+  }
+  return [...days.entries()].sort(([a], [b]) => b.localeCompare(a));
+};
+
+export const summarizeByModel = (records = listUsageRecords(), prices = getPriceTable()): [string, UsageTotals][] => {
+  const models = new Map<string, UsageTotals>();
+  for (const record of records) {
+    models.set(record.model, addRecord(models.get(record.model) ?? emptyTotals(), record, prices));
+  }
+  return [...models.entries()].sort(([, a], [, b]) => b.cost - a.cost);
+};
+
+export const getTodaysCost = (): number =>
+  summarizeByDay().find(([day]) => day === dayKey(Date.now()))?.[1].cost ?? 0;
+
+// Totals of the calls made for one conversation, from the same records as the daily and per-model totals.
+export const summarizeConversation = (conversationId: string, records = listUsageRecords(), prices = getPriceTable()): UsageTotals =>
+  records
+    .filter(record => record.conversationId === conversationId)
+    .reduce((totals, record) => addRecord(totals, record, prices), emptyTotals());
+
+export const formatCost = (cost: number) => `$${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`;
@@ -0,0 +1,237 @@
+import { AiErrorKind, ChatMessage, ChatMessageRole, GenerationJobStatus, Media } from '../types';
+import { classifyError } from './aiErrors';
+import { videoBlobToMedia } from '../utils/mediaHelpers';
+import { checkVideoStatus, downloadVideo, generateVideo, getActiveProvider, getVideoCapabilities } from './geminiService';
+import { addToLibrary } from './mediaLibrary';
+import { VideoAspectRatio, VideoGenerationOptions, VideoOperation } from './providers/types';
+
+// Runs video generations in the background so they survive switching features and page reloads.
+// Jobs are persisted locally with their operation handle and polled with exponential backoff until they finish.
+
+export interface VideoJob {
+  id: string;
+  prompt: string;
+  aspectRatio: VideoAspectRatio;
+  model: string;
+  // Where the result is posted once the job finishes.
+  conversationId: string;
+  messageId: string;
+  // Set for jobs started by a chat tool call: the video is added to that reply instead of replacing its text.
+  attachToReply?: boolean;
+  status: GenerationJobStatus;
+  operation?: VideoOperation;
+  createdAt: number;
+  lastCheckedAt?: number;
+  pollDelayMs: number;
+  consecutiveErrors: number;
+  video?: Media;
+  error?: string;
+  errorKind?: AiErrorKind;
+}
+
+export interface VideoJobRequest {
+  prompt: string;
+  options: VideoGenerationOptions;
+  conversationId: string;
+  messageId: string;
+  attachToReply?: boolean;
+}
+
+// Options for videos requested with a prompt alone, from chat commands and tools.
+export const getDefaultVideoOptions = (): VideoGenerationOptions => ({
+  model: getVideoCapabilities().models[0]?.id ?? getActiveProvider().videoModel,
+  aspectRatio: '16:9',
+  resolution: '720p',
+  durationSeconds: 8,
+});
+
+type VideoJobListener = (job: VideoJob) => void;
+
+const JOBS_KEY = 'tamur-ai:video-jobs';
+const INITIAL_POLL_DELAY_MS = 10_000;
+const MAX_POLL_DELAY_MS = 60_000;
+const POLL_BACKOFF_FACTOR = 1.5;
+const MAX_CONSECUTIVE_ERRORS = 5;
+
+const jobs = new Map<string, VideoJob>();
+const timers = new Map<string, ReturnType<typeof setTimeout>>();
+const listeners = new Set<VideoJobListener>();
+let hasResumed = false;
+
+const toJobError = (error: unknown): Pick<VideoJob, 'error' | 'errorKind'> => {
+  const classified = classifyError(error);
+  return { error: classified.message, errorKind: classified.kind };
+};
+
+const isFinished = (job: VideoJob) => job.status === 'succeeded' || job.status === 'failed' || job.status === 'cancelled';
+
+// Only unfinished jobs need to outlive the page; finished ones have already been posted to their message.
+const persistJobs = () => {
+  const unfinished = [...jobs.values()].filter(job => !isFinished(job));
+  try {
+    localStorage.setItem(JOBS_KEY, JSON.stringify(unfinished));
+  } catch (error) {
+    console.warn("Could not persist video jobs.", error);
+  }
+};
+
+const updateJob = (id: string, update: Partial<VideoJob>): VideoJob | undefined => {
+  const current = jobs.get(id);
+  if (!current) return undefined;
+  const job = { ...current, ...update };
+  jobs.set(id, job);
+  persistJobs();
+  listeners.forEach(listener => listener(job));
+  if (isFinished(job)) {
+    jobs.delete(id);
+  }
+  return job;
+};
+
+const schedulePoll = (id: string, delayMs: number) => {
+  clearTimeout(timers.get(id));
+  timers.set(id, setTimeout(() => pollJob(id), delayMs));
+};
+
+const pollJob = async (id: string) => {
+  timers.delete(id);
+  const job = jobs.get(id);
+  if (!job?.operation || isFinished(job)) return;
+
+  try {
+    const operation = await checkVideoStatus(job.operation);
+    // The job may have been cancelled while the request was in flight.
+    if (!jobs.has(id)) return;
+    if (!operation.done) {
+      const pollDelayMs = Math.min(job.pollDelayMs * POLL_BACKOFF_FACTOR, MAX_POLL_DELAY_MS);
+      updateJob(id, { operation, lastCheckedAt: Date.now(), pollDelayMs, consecutiveErrors: 0 });
+      schedulePoll(id, pollDelayMs);
+    } else if (operation.error || !operation.videoUri) {
+      updateJob(id, { operation, lastCheckedAt: Date.now(), status: 'failed', ...toJobError(operation.error ?? 'Video generation finished but no video was returned.') });
+    } else {
+      // Stored inline so the saved message plays without a key; a failed download is retried like a failed poll.
+      const blob = await downloadVideo(operation.videoUri);
+      const video = { ...await videoBlobToMedia(blob, job.prompt), sourceUri: operation.videoUri };
+      if (!jobs.has(id)) return;
+      addToLibrary(blob, { source: 'generated', prompt: job.prompt, model: job.model, aspectRatio: job.aspectRatio, conversationId: job.conversationId });
+      updateJob(id, { operation, lastCheckedAt: Date.now(), status: 'succeeded', video });
+    }
+  } catch (error) {
+    if (!jobs.has(id)) return;
+    console.error("Error checking video status:", error);
+    const consecutiveErrors = job.consecutiveErrors + 1;
+    if (consecutiveErrors >= MAX_CONSECUTIVE_ERRORS) {
+      updateJob(id, { status: 'failed', ...toJobError(error) });
+      return;
+    }
+    const pollDelayMs = Math.min(job.pollDelayMs * POLL_BACKOFF_FACTOR, MAX_POLL_DELAY_MS);
+    updateJob(id, { consecutiveErrors, pollDelayMs });
+    schedulePoll(id, pollDelayMs);
+  }
+};
+
+export const subscribeToVideoJobs = (listener: VideoJobListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const submitJob = async (id: string, request: VideoJobRequest) => {
+  try {
+    const operation = await generateVideo(request.prompt, request.options, request.conversationId);
+    const job = jobs.get(id);
+    if (!job) return;
+    updateJob(id, { operation, status: 'running' });
+    schedulePoll(id, job.pollDelayMs);
+  } catch (error) {
+    console.error("Error starting video generation:", error);
+    updateJob(id, { status: 'failed', ...toJobError(error) });
+  }
+};
+
+// Registers the job and submits it in the background; updates are delivered to subscribers.
+export const startVideoJob = (request: VideoJobRequest): VideoJob => {
+  const job: VideoJob = {
+    id: `video-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    prompt: request.prompt,
+    aspectRatio: request.options.aspectRatio,
+    model: request.options.model,
+    conversationId: request.conversationId,
+    messageId: request.messageId,
+    attachToReply: request.attachToReply,
+    status: 'pending',
+    createdAt: Date.now(),
+    pollDelayMs: INITIAL_POLL_DELAY_MS,
+    consecutiveErrors: 0,
+  };
+  jobs.set(job.id, job);
+  persistJobs();
+  submitJob(job.id, request);
+  return job;
+};
+
+// Stops tracking a job. The backend keeps no cancel endpoint for video operations, so the result is simply discarded.
+export const cancelVideoJob = (id: string) => {
+  clearTimeout(timers.get(id));
+  timers.delete(id);
+  updateJob(id, { status: 'cancelled' });
+};
+
+// Picks up jobs that were still running when the page was closed. Safe to call more than once.
+export const resumeVideoJobs = () => {
+  if (hasResumed) return;
+  hasResumed = true;
+
+  let stored: VideoJob[] = [];
+  try {
+    stored = JSON.parse(localStorage.getItem(JOBS_KEY) ?? '[]');
+  } catch (error) {
+    console.warn("Could not read stored video jobs.", error);
+  }
+  for (const job of stored) {
+    jobs.set(job.id, job);
+    if (!job.operation) {
+      // The page closed before the backend accepted the request, so there is nothing to poll.
+      updateJob(job.id, { status: 'failed', error: 'Video generation was interrupted before it started. Please try again.' });
+    } else {
+      schedulePoll(job.id, 0);
+    }
+  }
+};
+
+// Reflects a job's progress or result in the chat message it belongs to.
+export const applyVideoJobToMessage = (message: ChatMessage, job: VideoJob): ChatMessage => {
+  const messageJob = { id: job.id, status: job.status, startedAt: job.createdAt, lastCheckedAt: job.lastCheckedAt };
+  if (job.attachToReply) {
+    switch (job.status) {
+      case 'succeeded':
+        return { ...message, media: [...(message.media ?? []), job.video!], job: messageJob };
+      case 'failed':
+        return { ...message, error: `Video generation failed: ${job.error}`, errorKind: job.errorKind, job: messageJob };
+      default:
+        return { ...message, job: messageJob };
+    }
+  }
+  switch (job.status) {
+    case 'succeeded':
+      return {
+        ...message,
+        text: `Here is the video I generated for: "${job.prompt}"`,
+        media: [job.video!],
+        job: messageJob,
+      };
+    case 'failed':
+      return { ...message, text: `I couldn't generate the video for: "${job.prompt}"`, error: job.error, errorKind: job.errorKind, job: messageJob };
+    case 'cancelled':
+      return { ...message, text: `Video generation was cancelled: "${job.prompt}"`, job: messageJob };
+    default:
+      return { ...message, job: messageJob };
+  }
+};
+
+export const createPendingVideoMessage = (job: VideoJob): ChatMessage => applyVideoJobToMessage({
+  id: job.messageId,
+  role: ChatMessageRole.MODEL,
+  text: `Generating a video for: "${job.prompt}"`,
+}, job);
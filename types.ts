@@ -11,12 +11,90 @@ export interface Source {
   domain: string;
 }
 
+// Links the end of a cited segment in a model reply to the sources supporting it.
+export interface Citation {
+  // UTF-8 byte offset into the reply text.
+  endIndex: number;
+  sourceIds: string[];
+}
+
 export interface Media {
-  type: 'image' | 'video' | 'audio';
+  type: 'image' | 'video' | 'audio' | 'document';
   url: string;
+  name?: string;
   prompt?: string;
   mimeType?: string;
   base64Data?: string;
+  // JPEG data URL of a video's first frame, shown before playback starts.
+  posterUrl?: string;
+  // Provider URI a generated video was downloaded from, kept so the video can be extended while the provider still has it.
+  sourceUri?: string;
+}
+
+export type ToolCallStatus = 'awaiting-confirmation' | 'running' | 'succeeded' | 'failed' | 'denied';
+
+// A function call made by the model while producing a reply, shown inline in that reply.
+export interface ToolCallRecord {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  status: ToolCallStatus;
+  // JSON of the response sent back to the model, truncated for display.
+  result?: string;
+}
+
+// Why a request failed, so the UI can explain it and offer the right way out.
+export type AiErrorKind = 'auth' | 'quota' | 'safety' | 'network' | 'invalid-input' | 'unknown';
+
+export interface SafetyRating {
+  // e.g. `HARM_CATEGORY_HARASSMENT`.
+  category: string;
+  // e.g. `MEDIUM`; ratings of negligible probability are not kept.
+  probability: string;
+  blocked?: boolean;
+}
+
+// Why a reply ended early. Absent when the model finished normally.
+export interface ResponseFinish {
+  // `blocked` means the prompt itself was rejected; `safety` that the reply was stopped part-way.
+  reason: 'max-tokens' | 'safety' | 'blocked' | 'recitation' | 'other';
+  // The backend's own finish or block reason, e.g. `PROHIBITED_CONTENT`.
+  detail?: string;
+  safetyRatings?: SafetyRating[];
+}
+
+// Tokens billed for one reply, summed over all of its model calls (e.g. tool rounds).
+export interface TokenUsage {
+  promptTokens: number;
+  responseTokens: number;
+  // Part of `promptTokens` served from the context cache at a lower price.
+  cachedTokens: number;
+  // Billed as output, in addition to `responseTokens`.
+  thinkingTokens: number;
+}
+
+// One alternate reply to the same prompt, kept when a model message is regenerated.
+export interface MessageVersion {
+  text: string;
+  sources?: Source[];
+  citations?: Citation[];
+  media?: Media[];
+  toolCalls?: ToolCallRecord[];
+  error?: string;
+  errorKind?: AiErrorKind;
+  finish?: ResponseFinish;
+  usage?: TokenUsage;
+  model?: string;
+}
+
+export type GenerationJobStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+// Progress of a background generation job whose result will be posted into this message.
+export interface MessageJob {
+  id: string;
+  status: GenerationJobStatus;
+  startedAt: number;
+  lastCheckedAt?: number;
 }
 
 export interface ChatMessage {
@@ -24,8 +102,50 @@ export interface ChatMessage {
   role: ChatMessageRole;
   text: string;
   sources?: Source[];
+  citations?: Citation[];
   media?: Media[];
+  toolCalls?: ToolCallRecord[];
   isLoading?: boolean;
+  // Set when the reply failed; `text` then holds whatever was streamed before the failure.
+  error?: string;
+  errorKind?: AiErrorKind;
+  finish?: ResponseFinish;
+  // Set on model replies once they finish streaming; `model` is the one that produced the reply.
+  usage?: TokenUsage;
+  model?: string;
+  // All versions of a regenerated reply. The top-level fields mirror `versions[versionIndex]`.
+  versions?: MessageVersion[];
+  versionIndex?: number;
+  job?: MessageJob;
+  // Set on turns that were spoken in a Live session; `text` then holds the transcript.
+  // `command` marks an image slash command, which is run again as that command on regenerate or edit.
+  origin?: 'live' | 'command';
+}
+
+// How the chat model is configured for one conversation.
+export interface ConversationSettings {
+  // Empty to use the provider's default chat model.
+  model: string;
+  systemPrompt: string;
+  // Unset values leave the model's own defaults in place.
+  temperature?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+  // Gemini only: tokens the model may spend thinking before answering; 0 turns thinking off.
+  thinkingBudget?: number;
+  searchEnabled: boolean;
+  // Voice used to read replies aloud; the provider's default voice when unset.
+  speechVoice?: string;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messages: ChatMessage[];
+  // Absent for conversations created before settings existed; defaults apply.
+  settings?: ConversationSettings;
 }
 
-export type ActiveFeature = 'chat' | 'image-gen' | 'video-gen' | 'image-edit' | 'live';
+export type ActiveFeature = 'chat' | 'image-gen' | 'video-gen' | 'image-edit' | 'live' | 'library';
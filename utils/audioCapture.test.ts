@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { createResampler, floatTo16BitPcm } from './audioCapture';
+
+// A ramp makes linear interpolation exact, so resampled values can be checked against the input directly.
+const ramp = (length: number) => Float32Array.from({ length }, (_, i) => i / length);
+
+const concat = (blocks: Float32Array[]) => {
+  const output = new Float32Array(blocks.reduce((sum, block) => sum + block.length, 0));
+  let offset = 0;
+  for (const block of blocks) {
+    output.set(block, offset);
+    offset += block.length;
+  }
+  return output;
+};
+
+describe('createResampler', () => {
+  it('downsamples 48 kHz to 16 kHz by taking every third sample', () => {
+    const input = ramp(480);
+    const output = createResampler(48000, 16000)(input);
+    expect(output.length).toBe(160);
+    for (let i = 0; i < output.length; i++) {
+      expect(output[i]).toBeCloseTo(input[i * 3], 6);
+    }
+  });
+
+  it('downsamples 44.1 kHz to 16 kHz by interpolating between samples', () => {
+    const input = ramp(441);
+    const output = createResampler(44100, 16000)(input);
+    expect(output.length).toBe(160);
+    const step = 44100 / 16000;
+    for (let i = 0; i < output.length; i++) {
+      expect(output[i]).toBeCloseTo((i * step) / input.length, 5);
+    }
+  });
+
+  it('treats successive blocks as one continuous signal', () => {
+    const input = ramp(4410);
+    const oneShot = createResampler(44100, 16000)(input);
+
+    const resample = createResampler(44100, 16000);
+    // Uneven block sizes, including the 128-frame render quantum, exercise every boundary offset.
+    const sizes = [128, 128, 1, 77, 1000, 3, 128];
+    const blocks: Float32Array[] = [];
+    let offset = 0;
+    for (let i = 0; offset < input.length; i++) {
+      const size = Math.min(sizes[i % sizes.length], input.length - offset);
+      blocks.push(resample(input.subarray(offset, offset + size)));
+      offset += size;
+    }
+    const chunked = concat(blocks);
+
+    expect(chunked.length).toBe(oneShot.length);
+    for (let i = 0; i < oneShot.length; i++) {
+      expect(chunked[i]).toBeCloseTo(oneShot[i], 6);
+    }
+  });
+
+  it('passes audio through unchanged when the rates match', () => {
+    const input = ramp(256);
+    const output = createResampler(16000, 16000)(input);
+    expect(Array.from(output)).toEqual(Array.from(input));
+    // A copy, so the worklet can reuse its input buffer.
+    expect(output).not.toBe(input);
+  });
+});
+
+describe('floatTo16BitPcm', () => {
+  it('scales samples to the 16-bit range', () => {
+    expect(Array.from(floatTo16BitPcm(new Float32Array([0, 0.5, -0.5, 1, -1])))).toEqual([0, 16383, -16384, 32767, -32768]);
+  });
+
+  it('clamps samples outside [-1, 1] instead of wrapping around', () => {
+    expect(Array.from(floatTo16BitPcm(new Float32Array([1.5, -1.5, 100, -100])))).toEqual([32767, -32768, 32767, -32768]);
+  });
+});
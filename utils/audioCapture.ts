@@ -0,0 +1,135 @@
+// Microphone capture for the Live API: an AudioWorklet resamples the device audio to 16 kHz mono
+// and converts it to 16-bit PCM on the audio thread, posting fixed-size chunks back to the page.
+
+export const CAPTURE_SAMPLE_RATE = 16000;
+// 2048 samples at 16 kHz is 128 ms of audio per chunk.
+const CHUNK_SIZE = 2048;
+const PROCESSOR_NAME = 'pcm-capture';
+
+// `createResampler` and `floatTo16BitPcm` are inlined into the worklet with `toString()`,
+// so they must not reference anything outside their own bodies.
+
+// Returns a stateful linear-interpolation resampler. Successive blocks are treated as one continuous
+// signal, so block boundaries do not introduce clicks or drift.
+export function createResampler(inputRate: number, outputRate: number) {
+  const step = inputRate / outputRate;
+  // Position of the next output sample, in input samples relative to the start of the next block.
+  let position = 0;
+  // Last sample of the previous block, used when interpolating across a block boundary.
+  let previous = 0;
+  return (input: Float32Array): Float32Array => {
+    if (inputRate === outputRate) return input.slice();
+    const output = new Float32Array(Math.ceil((input.length - position) / step) + 1);
+    let count = 0;
+    while (position <= input.length - 1) {
+      const index = Math.floor(position);
+      const fraction = position - index;
+      const current = index < 0 ? previous : input[index];
+      const next = index + 1 < input.length ? input[index + 1] : current;
+      output[count++] = current + (next - current) * fraction;
+      position += step;
+    }
+    position -= input.length;
+    if (input.length > 0) previous = input[input.length - 1];
+    return output.subarray(0, count);
+  };
+}
+
+// Clamps float samples to [-1, 1] before scaling so loud input saturates instead of wrapping around.
+export function floatTo16BitPcm(input: Float32Array): Int16Array {
+  const output = new Int16Array(input.length);
+  for (let i = 0; i < input.length; i++) {
+    const sample = Math.max(-1, Math.min(1, input[i]));
+    output[i] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+  }
+  return output;
+}
+
+const WORKLET_SOURCE = `
+const createResampler = ${createResampler.toString()};
+const floatTo16BitPcm = ${floatTo16BitPcm.toString()};
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate, chunkSize } = options.processorOptions;
+    this.resample = createResampler(sampleRate, targetSampleRate);
+    this.chunk = new Int16Array(chunkSize);
+    this.length = 0;
+    this.sumOfSquares = 0;
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+    const pcm = floatTo16BitPcm(this.resample(channel));
+    for (let i = 0; i < pcm.length; i++) {
+      this.chunk[this.length++] = pcm[i];
+      this.sumOfSquares += (pcm[i] / 32768) ** 2;
+      if (this.length === this.chunk.length) {
+        const level = Math.sqrt(this.sumOfSquares / this.length);
+        this.port.postMessage({ pcm: this.chunk, level }, [this.chunk.buffer]);
+        this.chunk = new Int16Array(this.chunk.length);
+        this.length = 0;
+        this.sumOfSquares = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+export interface AudioCaptureCallbacks {
+  // Receives CHUNK_SIZE samples of 16 kHz mono PCM.
+  onChunk: (pcm: Int16Array) => void;
+  // Receives the RMS level of each chunk, from 0 (silence) to 1 (full scale).
+  onLevel?: (level: number) => void;
+}
+
+export interface AudioCapture {
+  stop: () => void;
+}
+
+// Starts capturing a microphone stream. The context runs at the device's native rate; resampling happens in the worklet.
+export const startAudioCapture = async (stream: MediaStream, callbacks: AudioCaptureCallbacks): Promise<AudioCapture> => {
+  // @ts-ignore
+  const AudioContext = window.AudioContext || window.webkitAudioContext;
+  const context: AudioContext = new AudioContext();
+  const moduleUrl = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+  try {
+    await context.audioWorklet.addModule(moduleUrl);
+  } catch (error) {
+    context.close();
+    throw error;
+  } finally {
+    URL.revokeObjectURL(moduleUrl);
+  }
+
+  const source = context.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(context, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: 1,
+    processorOptions: { targetSampleRate: CAPTURE_SAMPLE_RATE, chunkSize: CHUNK_SIZE },
+  });
+  node.port.onmessage = (event: MessageEvent<{ pcm: Int16Array; level: number }>) => {
+    callbacks.onChunk(event.data.pcm);
+    callbacks.onLevel?.(event.data.level);
+  };
+  source.connect(node);
+  // The worklet writes no output; connecting it keeps the graph pulling it in every browser.
+  node.connect(context.destination);
+
+  return {
+    stop: () => {
+      node.port.onmessage = null;
+      source.disconnect();
+      node.disconnect();
+      if (context.state !== 'closed') {
+        context.close();
+      }
+    },
+  };
+};
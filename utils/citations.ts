@@ -0,0 +1,24 @@
+import { Citation } from '../types';
+
+// Inserts `[S#]` markers after each cited segment of a model reply.
+// Citation offsets are UTF-8 byte offsets into the full reply text, as reported by grounding metadata.
+export const insertCitationMarkers = (text: string, citations: Citation[]): string => {
+  if (citations.length === 0) return text;
+  const bytes = new TextEncoder().encode(text);
+  const decoder = new TextDecoder();
+  const markersByOffset = new Map<number, string[]>();
+  for (const citation of citations) {
+    if (citation.endIndex > bytes.length) continue;
+    const ids = markersByOffset.get(citation.endIndex) ?? [];
+    markersByOffset.set(citation.endIndex, [...ids, ...citation.sourceIds.filter(id => !ids.includes(id))]);
+  }
+
+  let result = '';
+  let cursor = 0;
+  for (const offset of [...markersByOffset.keys()].sort((a, b) => a - b)) {
+    result += decoder.decode(bytes.subarray(cursor, offset));
+    result += markersByOffset.get(offset)!.map(id => ` [${id}]`).join('');
+    cursor = offset;
+  }
+  return result + decoder.decode(bytes.subarray(cursor));
+};
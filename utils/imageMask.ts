@@ -0,0 +1,26 @@
+import type { InlineData } from '../services/providers/types';
+
+// OpenAI's `/images/edits` expects the area to edit to be transparent, while the editor paints it white on black.
+// Converts such a mask into a PNG that is opaque black where the image must be kept and transparent elsewhere.
+export const toAlphaMask = async (mask: InlineData): Promise<Blob> => {
+  const image = new Image();
+  image.src = `data:${mask.mimeType};base64,${mask.data}`;
+  await image.decode();
+
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(image, 0, 0);
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 0; i < pixels.data.length; i += 4) {
+    const isEditable = pixels.data[i] > 127;
+    pixels.data[i] = pixels.data[i + 1] = pixels.data[i + 2] = 0;
+    pixels.data[i + 3] = isEditable ? 0 : 255;
+  }
+  ctx.putImageData(pixels, 0, 0);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode the mask.')), 'image/png');
+  });
+};
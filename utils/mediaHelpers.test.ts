@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { decode, decodeAudioData, encode } from './mediaHelpers';
+
+// Just enough of an AudioContext for `decodeAudioData`, which only creates and fills a buffer.
+const fakeAudioContext = () => ({
+  createBuffer: (numberOfChannels: number, length: number, sampleRate: number) => {
+    const channels = Array.from({ length: numberOfChannels }, () => new Float32Array(length));
+    return { numberOfChannels, length, sampleRate, getChannelData: (channel: number) => channels[channel] };
+  },
+}) as unknown as AudioContext;
+
+describe('encode and decode', () => {
+  it('round-trips every byte value', () => {
+    const bytes = Uint8Array.from({ length: 256 }, (_, i) => i);
+    expect(Array.from(decode(encode(bytes)))).toEqual(Array.from(bytes));
+  });
+
+  it('round-trips lengths that need base64 padding', () => {
+    for (const length of [0, 1, 2, 3, 4, 5]) {
+      const bytes = Uint8Array.from({ length }, (_, i) => 255 - i);
+      expect(Array.from(decode(encode(bytes)))).toEqual(Array.from(bytes));
+    }
+  });
+
+  it('produces standard base64', () => {
+    expect(encode(new TextEncoder().encode('Hello'))).toBe('SGVsbG8=');
+    expect(new TextDecoder().decode(decode('SGVsbG8='))).toBe('Hello');
+  });
+});
+
+describe('decodeAudioData', () => {
+  it('converts 16-bit PCM to float samples', async () => {
+    const pcm = new Int16Array([0, 16384, -16384, 32767, -32768]);
+    const buffer = await decodeAudioData(new Uint8Array(pcm.buffer), fakeAudioContext(), 24000, 1);
+    expect(buffer.sampleRate).toBe(24000);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0, 0.5, -0.5, 32767 / 32768, -1]);
+  });
+
+  it('deinterleaves multiple channels', async () => {
+    const pcm = new Int16Array([16384, -16384, 0, 32767]);
+    const buffer = await decodeAudioData(new Uint8Array(pcm.buffer), fakeAudioContext(), 16000, 2);
+    expect(buffer.length).toBe(2);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0.5, 0]);
+    expect(Array.from(buffer.getChannelData(1))).toEqual([-0.5, 32767 / 32768]);
+  });
+
+  it('decodes PCM decoded from base64, as received from the Live API', async () => {
+    const pcm = new Int16Array([1000, -1000, 0]);
+    const bytes = decode(encode(new Uint8Array(pcm.buffer)));
+    const buffer = await decodeAudioData(bytes, fakeAudioContext(), 24000, 1);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([1000 / 32768, -1000 / 32768, 0]);
+  });
+
+  it('respects the view offset and ignores a trailing odd byte', async () => {
+    const backing = new Uint8Array(8);
+    new Int16Array(backing.buffer).set([32767, 16384, -16384, 0]);
+    // Starts at the second sample and has one stray byte at the end.
+    const view = new Uint8Array(backing.buffer, 2, 5);
+    const buffer = await decodeAudioData(view, fakeAudioContext(), 24000, 1);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0.5, -0.5]);
+  });
+});
@@ -1,3 +1,5 @@
+import { Media } from '../types';
+
 
 export const fileToBase64 = (file: File): Promise<string> => {
   return new Promise((resolve, reject) => {
@@ -12,6 +14,178 @@ export const fileToBase64 = (file: File): Promise<string> => {
   });
 };
 
+const TEXT_EXTENSIONS: Record<string, string> = {
+  md: 'text/markdown',
+  txt: 'text/plain',
+  csv: 'text/csv',
+  json: 'application/json',
+};
+
+// Browsers leave `file.type` empty for some text formats, so fall back to the extension.
+export const getFileMimeType = (file: File): string => {
+  if (file.type) return file.type;
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  return TEXT_EXTENSIONS[extension] ?? 'application/octet-stream';
+};
+
+export const getMediaType = (mimeType: string): Media['type'] | null => {
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  if (mimeType.startsWith('video/')) return 'video';
+  if (mimeType === 'application/pdf' || mimeType.startsWith('text/') || mimeType === 'application/json') return 'document';
+  return null;
+};
+
+// Reads a user-selected file into a `Media` item that can be shown in the chat and sent inline to the model.
+export const fileToMedia = async (file: File): Promise<Media> => {
+  const mimeType = getFileMimeType(file);
+  const type = getMediaType(mimeType);
+  if (!type) {
+    throw new Error(`Unsupported file type: ${file.name}`);
+  }
+  const base64Data = await fileToBase64(file);
+  return {
+    type,
+    url: `data:${mimeType};base64,${base64Data}`,
+    mimeType,
+    base64Data,
+    name: file.name,
+  };
+};
+
+export const parseDataUrl = (url: string): { mimeType: string; data: string } | null => {
+  const match = url.match(/^data:([^;,]+);base64,(.*)$/);
+  return match ? { mimeType: match[1], data: match[2] } : null;
+};
+
+// Keeps the inline bytes of data URL images so they can be sent back to the model as context.
+export const imageUrlToMedia = (url: string, prompt?: string): Media => {
+  const parsed = parseDataUrl(url);
+  return { type: 'image', url, prompt, mimeType: parsed?.mimeType, base64Data: parsed?.data };
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(blob);
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = (error) => reject(error);
+  });
+};
+
+// Resolves any media item to a data URL, fetching remote and blob URLs when the bytes are not stored inline.
+export const mediaToDataUrl = async (media: Media): Promise<string> => {
+  if (media.base64Data && media.mimeType) return `data:${media.mimeType};base64,${media.base64Data}`;
+  if (media.url.startsWith('data:')) return media.url;
+  const response = await fetch(media.url);
+  if (!response.ok) {
+    throw new Error(`Could not load ${media.name ?? 'media'} (${response.status}).`);
+  }
+  return blobToDataUrl(await response.blob());
+};
+
+const POSTER_TIMEOUT_MS = 10_000;
+
+// Draws the first frame of a video into a small JPEG. Resolves to undefined when the browser cannot decode the video
+// or does not get to the first frame in time, so saving a video never waits on its poster.
+export const captureVideoPoster = (blob: Blob, maxWidth = 640): Promise<string | undefined> => {
+  return new Promise(resolve => {
+    const url = URL.createObjectURL(blob);
+    const video = document.createElement('video');
+    let settled = false;
+    const finish = (poster?: string) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(url);
+      resolve(poster);
+    };
+    const timer = setTimeout(() => {
+      console.warn("Timed out capturing a video poster.");
+      finish();
+    }, POSTER_TIMEOUT_MS);
+    video.muted = true;
+    video.preload = 'auto';
+    video.onloadeddata = () => {
+      // Seeking slightly past zero makes browsers paint the frame instead of a blank one.
+      video.currentTime = Math.min(0.1, video.duration || 0);
+    };
+    video.onseeked = () => {
+      try {
+        const scale = Math.min(1, maxWidth / video.videoWidth);
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(video.videoWidth * scale);
+        canvas.height = Math.round(video.videoHeight * scale);
+        canvas.getContext('2d')!.drawImage(video, 0, 0, canvas.width, canvas.height);
+        finish(canvas.toDataURL('image/jpeg', 0.8));
+      } catch (error) {
+        console.warn("Could not capture a video poster.", error);
+        finish();
+      }
+    };
+    video.onerror = () => finish();
+    video.src = url;
+  });
+};
+
+// Keeps the video bytes inline in the URL so the message plays and exports without the remote link it was downloaded from.
+// No `base64Data`: the video is not sent back to the model with every later turn, and the bytes are stored only once.
+export const videoBlobToMedia = async (blob: Blob, prompt?: string): Promise<Media> => {
+  const url = await blobToDataUrl(blob);
+  return {
+    type: 'video',
+    url,
+    prompt,
+    mimeType: parseDataUrl(url)?.mimeType ?? blob.type,
+    posterUrl: await captureVideoPoster(blob),
+  };
+};
+
+// Name for saving a media item, with an extension from its MIME type when it has no name of its own.
+export const getMediaFileName = (media: Media, fallbackName: string): string =>
+  media.name ?? `${fallbackName}.${media.mimeType?.split('/')[1]?.split(';')[0] ?? 'bin'}`;
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Wraps 16-bit mono PCM chunks in a WAV container so recorded Live turns can be played back and exported.
+export const pcmToWavMedia = (chunks: Int16Array[], sampleRate: number, name: string): Media => {
+  const dataLength = chunks.reduce((total, chunk) => total + chunk.byteLength, 0);
+  const bytes = new Uint8Array(44 + dataLength);
+  const view = new DataView(bytes.buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataLength, true);
+  let offset = 44;
+  for (const chunk of chunks) {
+    bytes.set(new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.byteLength), offset);
+    offset += chunk.byteLength;
+  }
+  // No `base64Data`: the transcript already carries the turn, so the audio is not sent back to the model.
+  return { type: 'audio', url: `data:audio/wav;base64,${encode(bytes)}`, mimeType: 'audio/wav', name };
+};
+
 // For Live API Audio
 export function decode(base64: string) {
   const binaryString = atob(base64);
@@ -29,7 +203,8 @@ export async function decodeAudioData(
   sampleRate: number,
   numChannels: number,
 ): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
+  // Respect the view's offset and ignore a trailing odd byte instead of reading the whole underlying buffer.
+  const dataInt16 = new Int16Array(data.buffer, data.byteOffset, Math.floor(data.byteLength / 2));
   const frameCount = dataInt16.length / numChannels;
   const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
 
@@ -0,0 +1,38 @@
+import { ChatMessage, MessageVersion } from '../types';
+
+const toVersion = ({ text, sources, citations, media, toolCalls, error, errorKind, finish, usage, model }: ChatMessage): MessageVersion => ({ text, sources, citations, media, toolCalls, error, errorKind, finish, usage, model });
+
+// Copies the visible fields of a message back into its active version slot.
+export const syncActiveVersion = (message: ChatMessage): ChatMessage => {
+  if (!message.versions || message.versionIndex === undefined) return message;
+  const versions = [...message.versions];
+  versions[message.versionIndex] = toVersion(message);
+  return { ...message, versions };
+};
+
+// Keeps the current reply as a version and starts an empty one to stream a regenerated reply into.
+export const startNewVersion = (message: ChatMessage): ChatMessage => {
+  const versions = syncActiveVersion(message).versions ?? [toVersion(message)];
+  return {
+    ...message,
+    text: '',
+    sources: undefined,
+    citations: undefined,
+    media: undefined,
+    toolCalls: undefined,
+    error: undefined,
+    errorKind: undefined,
+    finish: undefined,
+    usage: undefined,
+    model: undefined,
+    versions: [...versions, { text: '' }],
+    versionIndex: versions.length,
+  };
+};
+
+export const selectVersion = (message: ChatMessage, index: number): ChatMessage => {
+  const version = message.versions?.[index];
+  if (!version) return message;
+  const { text, sources, citations, media, toolCalls, error, errorKind, finish, usage, model } = version;
+  return { ...syncActiveVersion(message), text, sources, citations, media, toolCalls, error, errorKind, finish, usage, model, versionIndex: index };
+};
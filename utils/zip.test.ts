@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { crc32, createZip, ZipTooLargeError } from './zip';
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(bytes('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+});
+
+describe('createZip', () => {
+  const entries = [
+    { name: 'image-1.png', data: bytes('first file'), modifiedAt: new Date(2026, 4, 17, 13, 45, 30) },
+    { name: 'vidéo.mp4', data: bytes('the second, longer file') },
+  ];
+
+  it('writes local headers, a central directory and an end record that agree', async () => {
+    const archive = new Uint8Array(await createZip(entries).arrayBuffer());
+    const view = new DataView(archive.buffer);
+    const decoder = new TextDecoder();
+
+    const endOffset = archive.length - 22;
+    expect(view.getUint32(endOffset, true)).toBe(0x06054b50);
+    expect(view.getUint16(endOffset + 8, true)).toBe(2);
+    expect(view.getUint16(endOffset + 10, true)).toBe(2);
+    const directorySize = view.getUint32(endOffset + 12, true);
+    let central = view.getUint32(endOffset + 16, true);
+    expect(central + directorySize).toBe(endOffset);
+
+    for (const entry of entries) {
+      const name = bytes(entry.name);
+      expect(view.getUint32(central, true)).toBe(0x02014b50);
+      expect(view.getUint16(central + 8, true) & 0x0800).toBe(0x0800);
+      expect(view.getUint32(central + 16, true)).toBe(crc32(entry.data));
+      expect(view.getUint32(central + 20, true)).toBe(entry.data.length);
+      expect(view.getUint32(central + 24, true)).toBe(entry.data.length);
+      expect(view.getUint16(central + 28, true)).toBe(name.length);
+      expect(decoder.decode(archive.subarray(central + 46, central + 46 + name.length))).toBe(entry.name);
+
+      const local = view.getUint32(central + 42, true);
+      expect(view.getUint32(local, true)).toBe(0x04034b50);
+      expect(view.getUint16(local + 8, true)).toBe(0); // stored
+      expect(view.getUint16(local + 10, true)).toBe(view.getUint16(central + 12, true));
+      expect(view.getUint16(local + 12, true)).toBe(view.getUint16(central + 14, true));
+      expect(view.getUint32(local + 14, true)).toBe(crc32(entry.data));
+      expect(view.getUint32(local + 22, true)).toBe(entry.data.length);
+      expect(view.getUint16(local + 26, true)).toBe(name.length);
+      const dataStart = local + 30 + name.length;
+      expect(archive.subarray(dataStart, dataStart + entry.data.length)).toEqual(entry.data);
+
+      central += 46 + name.length;
+    }
+  });
+
+  it('stores the modification time in MS-DOS format', async () => {
+    const view = new DataView(await createZip(entries.slice(0, 1)).arrayBuffer());
+    expect(view.getUint16(10, true)).toBe((13 << 11) | (45 << 5) | 15);
+    expect(view.getUint16(12, true)).toBe(((2026 - 1980) << 9) | (5 << 5) | 17);
+  });
+
+  it('refuses archives that would overflow the 32-bit size and offset fields', () => {
+    // Only the length is read before the size check, so no 4 GB buffer is needed.
+    const huge = { length: 0xffffffff } as Uint8Array;
+    expect(() => createZip([{ name: 'a.mp4', data: huge }])).toThrow(ZipTooLargeError);
+    expect(() => createZip([
+      { name: 'a.mp4', data: { length: 0x80000000 } as Uint8Array },
+      { name: 'b.mp4', data: { length: 0x80000000 } as Uint8Array },
+    ])).toThrow(ZipTooLargeError);
+  });
+
+  it('refuses more entries than the end record can count', () => {
+    const many = Array.from({ length: 0x10000 }, (_, i) => ({ name: `${i}`, data: new Uint8Array() }));
+    expect(() => createZip(many)).toThrow(ZipTooLargeError);
+  });
+});